@@ -7,10 +7,55 @@
  * provides access to all API resources.
  */
 
+import { createHash, randomUUID } from 'crypto';
+
 import type {
   WorkbenchConfig,
+  WorkbenchClientEvents,
+  RateLimitInfo,
+  HttpMethod,
+  HttpRequest,
+  ResponseType,
+  FetchFunction,
+  Middleware,
+  RequestConfig,
+  WithResponse,
+  RequestEvent,
+  RetryEvent,
+  WorkbenchMode,
+  QueueStats,
+  CircuitState,
+  Tracer,
+  Logger,
+  LogLevel,
+  ValidationMode,
+  DateMode,
   ApiError,
 } from './types/index.js';
+import {
+  WorkbenchError,
+  TimeoutError,
+  ConnectionError,
+  ResponseValidationError,
+  createApiError,
+} from './errors.js';
+import { TypedEventEmitter } from './utils/events.js';
+import { TokenManager } from './utils/token-manager.js';
+import { readEnvConfig, DEFAULT_ENV_PREFIX, MAX_TIMEOUT } from './utils/env.js';
+import { RequestQueue } from './utils/request-queue.js';
+import { ResponseCache } from './utils/cache.js';
+import { CircuitBreaker } from './utils/circuit-breaker.js';
+import type { SettleFunction } from './utils/circuit-breaker.js';
+import { runBatch } from './utils/batch.js';
+import type { BatchOptions, BatchResult } from './utils/batch.js';
+import type { EventListener } from './utils/events.js';
+import { parseRateLimitHeaders, parseRetryAfter } from './utils/rate-limit.js';
+import { WorkbenchPromise } from './utils/workbench-promise.js';
+import { consoleLogger, isLevelEnabled, redact, resolveLogLevel } from './utils/logger.js';
+import { findResponseValidator, formatIssues } from './utils/validators.js';
+import { hydrateDates, serializeDates } from './utils/dates.js';
+import type { DatedResource } from './utils/dates.js';
+import { getResourceName, SPAN_KIND_CLIENT, SPAN_STATUS_OK, SPAN_STATUS_ERROR } from './utils/tracing.js';
 
 import { ClientsResource } from './resources/clients.js';
 import { InvoicesResource } from './resources/invoices.js';
@@ -27,50 +72,80 @@ import { IntegrationsResource } from './resources/integrations.js';
 const DEFAULT_BASE_URL = 'https://api.tryworkbench.app';
 const DEFAULT_TIMEOUT = 30000;
 const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RATE_LIMIT_WARNING_THRESHOLD = 0.1;
 
 /**
- * Error thrown when an API request fails
+ * Longest server-requested Retry-After delay the client will wait out.
+ * Longer delays fail immediately instead of blocking the caller.
  */
-export class WorkbenchError extends Error {
-  /** HTTP status code */
-  public readonly status: number;
-  /** Error code from the API */
-  public readonly code: string;
-  /** Additional error details */
-  public readonly details?: Array<{ field: string; message: string }>;
-  /** Request ID for debugging */
-  public readonly requestId?: string;
-
-  constructor(
-    message: string,
-    status: number,
-    code: string,
-    details?: Array<{ field: string; message: string }>,
-    requestId?: string
-  ) {
-    super(message);
-    this.name = 'WorkbenchError';
-    this.status = status;
-    this.code = code;
-    this.details = details;
-    this.requestId = requestId;
+const MAX_RETRY_AFTER = 60000;
+
+/**
+ * Header used to make mutating requests safe to retry
+ */
+const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+/**
+ * Methods that are idempotent by definition and always safe to retry
+ */
+const IDEMPOTENT_METHODS: ReadonlySet<HttpMethod> = new Set(['GET', 'PUT', 'DELETE']);
+
+/**
+ * Determine the mode from the configured credentials
+ *
+ * OAuth tokens take precedence over API keys, matching the credential that
+ * is actually sent. API keys without a recognised prefix are treated as live.
+ */
+function detectMode(config: WorkbenchConfig): WorkbenchMode {
+  if (config.accessToken || config.tokenProvider || config.refreshToken) {
+    return 'oauth';
   }
+
+  return config.apiKey?.startsWith('wbk_test_') ? 'test' : 'live';
+}
+
+/**
+ * Return the timeout unchanged, or throw if setTimeout cannot honour it
+ *
+ * A zero timeout would abort every request before it is sent, and Node
+ * fires timers longer than MAX_TIMEOUT after 1ms.
+ */
+function validateTimeout(timeout: number): number {
+  if (!(timeout >= 1 && timeout <= MAX_TIMEOUT)) {
+    throw new RangeError(`timeout must be between 1 and ${MAX_TIMEOUT}ms (got ${timeout})`);
+  }
+  return timeout;
+}
+
+/**
+ * Stream with no content, returned for a binary response without a body
+ */
+function emptyStream(): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      controller.close();
+    },
+  });
 }
 
 /**
  * HTTP request options
  */
-export interface RequestOptions {
+export interface RequestOptions extends RequestConfig {
   /** HTTP method */
-  method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+  method: HttpMethod;
   /** Request path (without base URL) */
   path: string;
   /** Query parameters */
   query?: Record<string, string | number | boolean | undefined>;
   /** Request body */
   body?: unknown;
-  /** Additional headers */
-  headers?: Record<string, string>;
+  /**
+   * How a successful response body is read (defaults to 'json'). Buffer and
+   * stream responses bypass the response cache, deduplication, validation
+   * and date hydration; error responses are still parsed as JSON.
+   */
+  responseType?: ResponseType;
 }
 
 /**
@@ -98,59 +173,357 @@ export interface RequestOptions {
  *   client_id: 'client-uuid',
  *   items: [{ description: 'Service', quantity: 1, unit_price: 100 }]
  * });
+ *
+ * // Timestamps as Date and date-only fields as DateOnly
+ * const dated = new WorkbenchClient({ apiKey: 'wbk_live_xxx', dates: 'date' });
+ * const { data: job } = await dated.jobs.get('job-uuid');
+ * job.created_at.getTime();
  * ```
+ *
+ * @typeParam D - Date mode, inferred from the `dates` option (default: 'string')
  */
-export class WorkbenchClient {
+export class WorkbenchClient<D extends DateMode = 'string'> {
   private readonly baseUrl: string;
   private readonly timeout: number;
   private readonly maxRetries: number;
-  private readonly authHeader: string;
+  private readonly idempotencyKeys: boolean;
+  private readonly dedupeRequests: boolean;
+  private readonly rateLimitWarningThreshold: number;
+  private readonly tokens: TokenManager;
+  private readonly clientMode: WorkbenchMode;
+  private readonly queue: RequestQueue;
+  private readonly cache: ResponseCache | null;
+  private readonly circuit: CircuitBreaker | null;
+  private readonly validateResponses?: ValidationMode;
+  private readonly dates: DateMode;
+  private readonly fetchFn: FetchFunction;
+  private readonly middleware: Middleware[];
+  private readonly tracer?: Tracer;
+  private readonly logger: Logger;
+  private readonly logLevel: LogLevel;
+  private readonly events = new TypedEventEmitter<WorkbenchClientEvents>();
+  private readonly inFlight = new Map<string, Promise<WithResponse<unknown>>>();
+  private lastRateLimit: RateLimitInfo | null = null;
 
   /** Clients resource */
-  public readonly clients: ClientsResource;
+  public readonly clients: DatedResource<ClientsResource, D>;
   /** Invoices resource */
-  public readonly invoices: InvoicesResource;
+  public readonly invoices: DatedResource<InvoicesResource, D>;
   /** Quotes resource */
-  public readonly quotes: QuotesResource;
+  public readonly quotes: DatedResource<QuotesResource, D>;
   /** Jobs resource */
-  public readonly jobs: JobsResource;
+  public readonly jobs: DatedResource<JobsResource, D>;
   /** Requests resource */
-  public readonly requests: RequestsResource;
+  public readonly requests: DatedResource<RequestsResource, D>;
   /** Webhooks resource */
-  public readonly webhooks: WebhooksResource;
+  public readonly webhooks: DatedResource<WebhooksResource, D>;
   /** Notifications resource */
-  public readonly notifications: NotificationsResource;
+  public readonly notifications: DatedResource<NotificationsResource, D>;
   /** Integrations marketplace resource */
-  public readonly integrations: IntegrationsResource;
+  public readonly integrations: DatedResource<IntegrationsResource, D>;
 
   /**
    * Create a new Workbench client
    *
    * @param config - Client configuration
-   * @throws Error if neither apiKey nor accessToken is provided
+   * @throws Error if no apiKey, accessToken, tokenProvider or refreshToken is provided
+   * @throws Error if a live API key is used while test mode is required
+   * @throws Error if caching with only a tokenProvider and no cache.namespace
+   * @throws RangeError if timeout is less than 1 or greater than 2^31 - 1
    */
-  constructor(config: WorkbenchConfig) {
-    if (!config.apiKey && !config.accessToken) {
+  constructor(config: WorkbenchConfig<D>) {
+    if (!config.apiKey && !config.accessToken && !config.tokenProvider && !config.refreshToken) {
       throw new Error('Either apiKey or accessToken must be provided');
     }
 
+    this.clientMode = detectMode(config);
+    const requireTestMode = config.requireTestMode ?? process.env.NODE_ENV === 'test';
+    if (requireTestMode && this.clientMode === 'live') {
+      throw new Error(
+        'A live API key was provided but test mode is required ' +
+        '(requireTestMode is set or NODE_ENV is "test"). Use a wbk_test_ key.'
+      );
+    }
+
     this.baseUrl = config.baseUrl || DEFAULT_BASE_URL;
-    this.timeout = config.timeout || DEFAULT_TIMEOUT;
-    this.maxRetries = config.maxRetries || DEFAULT_MAX_RETRIES;
+    this.timeout = validateTimeout(config.timeout ?? DEFAULT_TIMEOUT);
+    this.maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.idempotencyKeys = config.idempotencyKeys ?? true;
+    this.dedupeRequests = config.dedupeRequests ?? true;
+    this.validateResponses = config.validateResponses;
+    this.dates = config.dates ?? 'string';
+    this.rateLimitWarningThreshold =
+      config.rateLimitWarningThreshold ?? DEFAULT_RATE_LIMIT_WARNING_THRESHOLD;
+
+    // Resolve the global fetch lazily so it can be replaced after construction
+    this.fetchFn = config.fetch ?? ((url, init) => fetch(url, init));
+    this.middleware = [...(config.middleware ?? [])];
+    this.queue = new RequestQueue({
+      maxConcurrency: config.maxConcurrency,
+      requestsPerSecond: config.requestsPerSecond,
+    });
+    this.tracer = config.tracer;
+    this.logger = config.logger ?? consoleLogger;
+    this.logLevel = resolveLogLevel(config.logLevel, config.logger !== undefined);
 
-    // Set up authentication header
-    const token = config.accessToken || config.apiKey;
-    this.authHeader = `Bearer ${token}`;
+    // Keys are namespaced per credential so accounts sharing a store never see each other's data.
+    // A tokenProvider's tokens are not known up front, so those clients must name their namespace.
+    const credential = config.apiKey ?? config.accessToken ?? config.refreshToken;
+    const cacheOptions = config.cache === true ? {} : config.cache || undefined;
+    if (cacheOptions && !credential && !cacheOptions.namespace) {
+      throw new Error(
+        'cache.namespace is required when caching with a tokenProvider, ' +
+        'so clients for different accounts never share cached responses'
+      );
+    }
+    this.cache = cacheOptions
+      ? new ResponseCache(
+        cacheOptions,
+        createHash('sha256').update(credential ?? '').digest('hex').slice(0, 16),
+        (error) => this.log('warn', 'Cache store error', {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      )
+      : null;
 
-    // Initialize resources
-    this.clients = new ClientsResource(this);
-    this.invoices = new InvoicesResource(this);
-    this.quotes = new QuotesResource(this);
-    this.jobs = new JobsResource(this);
-    this.requests = new RequestsResource(this);
-    this.webhooks = new WebhooksResource(this);
-    this.notifications = new NotificationsResource(this);
-    this.integrations = new IntegrationsResource(this);
+    this.circuit = config.circuitBreaker
+      ? new CircuitBreaker(
+        config.circuitBreaker === true ? {} : config.circuitBreaker,
+        (previous, state, failureRate) => {
+          this.log(state === 'open' ? 'warn' : 'info', 'Circuit breaker state changed', {
+            previous,
+            state,
+            failureRate,
+          });
+          this.events.emit('circuitStateChange', { previous, state, failureRate });
+        }
+      )
+      : null;
+
+    // Set up authentication
+    this.tokens = new TokenManager({
+      apiKey: config.apiKey,
+      accessToken: config.accessToken,
+      tokenProvider: config.tokenProvider,
+      refreshToken: config.refreshToken,
+      oauthClient: config.oauthClient,
+      onTokenRefreshed: config.onTokenRefreshed,
+      fetch: this.fetchFn,
+    });
+
+    // Initialize resources. Their types follow the date mode; at runtime
+    // they are the same objects, as hydration happens in execute().
+    const client = this as WorkbenchClient;
+    this.clients = new ClientsResource(client) as DatedResource<ClientsResource, D>;
+    this.invoices = new InvoicesResource(client) as DatedResource<InvoicesResource, D>;
+    this.quotes = new QuotesResource(client) as DatedResource<QuotesResource, D>;
+    this.jobs = new JobsResource(client) as DatedResource<JobsResource, D>;
+    this.requests = new RequestsResource(client) as DatedResource<RequestsResource, D>;
+    this.webhooks = new WebhooksResource(client) as DatedResource<WebhooksResource, D>;
+    this.notifications = new NotificationsResource(client) as DatedResource<NotificationsResource, D>;
+    this.integrations = new IntegrationsResource(client) as DatedResource<IntegrationsResource, D>;
+  }
+
+  /**
+   * Create a client configured from environment variables
+   *
+   * Reads `<prefix>_API_KEY`, `<prefix>_ACCESS_TOKEN`, `<prefix>_REFRESH_TOKEN`,
+   * `<prefix>_CLIENT_ID`, `<prefix>_CLIENT_SECRET`, `<prefix>_BASE_URL`,
+   * `<prefix>_TIMEOUT`, `<prefix>_MAX_RETRIES` and `<prefix>_REQUIRE_TEST_MODE`.
+   *
+   * @param prefix - Variable name prefix (default: WORKBENCH)
+   * @param config - Options that take precedence over the environment (e.g. fetch, logger).
+   *   Credentials given here replace the credential variables, which are then not read.
+   * @returns Configured client
+   * @throws Error if no credentials are set or a variable has an invalid value
+   *
+   * @example
+   * ```typescript
+   * // WORKBENCH_API_KEY=wbk_live_xxx WORKBENCH_MAX_RETRIES=0
+   * const workbench = WorkbenchClient.fromEnv();
+   *
+   * // BILLING_WORKBENCH_API_KEY=wbk_live_yyy
+   * const billing = WorkbenchClient.fromEnv('BILLING_WORKBENCH', { timeout: 60000 });
+   * ```
+   */
+  static fromEnv<D extends DateMode = 'string'>(
+    prefix: string = DEFAULT_ENV_PREFIX,
+    config: WorkbenchConfig<D> = {}
+  ): WorkbenchClient<D> {
+    const hasCredentials = Boolean(config.apiKey || config.accessToken || config.tokenProvider || config.refreshToken);
+    const envConfig = readEnvConfig(prefix, process.env, !hasCredentials);
+    return new WorkbenchClient<D>({ ...envConfig, ...config } as WorkbenchConfig<D>);
+  }
+
+  /**
+   * Environment of the client's credentials
+   *
+   * @example
+   * ```typescript
+   * if (workbench.mode === 'live') {
+   *   throw new Error('Refusing to seed production');
+   * }
+   * ```
+   */
+  get mode(): WorkbenchMode {
+    return this.clientMode;
+  }
+
+  /**
+   * Whether mutating requests without an explicit key get a generated Idempotency-Key
+   *
+   * Reflects the `idempotencyKeys` option.
+   */
+  get idempotencyKeysEnabled(): boolean {
+    return this.idempotencyKeys;
+  }
+
+  /**
+   * Current depth of the client-side request queue
+   *
+   * @example
+   * ```typescript
+   * const { active, queued, queuedByPriority } = workbench.queueStats;
+   * metrics.gauge('workbench.queue.depth', queued);
+   * ```
+   */
+  get queueStats(): QueueStats {
+    return this.queue.stats;
+  }
+
+  /**
+   * State of the circuit breaker (always `closed` when it is disabled)
+   *
+   * @example
+   * ```typescript
+   * if (workbench.circuitState === 'open') {
+   *   return cachedDashboard();
+   * }
+   * ```
+   */
+  get circuitState(): CircuitState {
+    return this.circuit?.state ?? 'closed';
+  }
+
+  /**
+   * Rate-limit state from the most recent API response
+   *
+   * Null until a response with X-RateLimit-* headers has been received.
+   *
+   * @example
+   * ```typescript
+   * const { remaining, resetAt } = workbench.rateLimit ?? {};
+   * ```
+   */
+  get rateLimit(): RateLimitInfo | null {
+    return this.lastRateLimit;
+  }
+
+  /**
+   * Subscribe to a client event
+   *
+   * @param event - Event name
+   * @param listener - Called with the event payload
+   * @returns Function that removes the listener
+   *
+   * @example
+   * ```typescript
+   * workbench.on('rateLimitWarning', ({ remaining, limit, resetAt }) => {
+   *   console.warn(`Only ${remaining}/${limit} requests left until ${resetAt}`);
+   * });
+   * ```
+   */
+  on<E extends keyof WorkbenchClientEvents>(
+    event: E,
+    listener: EventListener<WorkbenchClientEvents[E]>
+  ): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Unsubscribe from a client event
+   */
+  off<E extends keyof WorkbenchClientEvents>(
+    event: E,
+    listener: EventListener<WorkbenchClientEvents[E]>
+  ): void {
+    this.events.off(event, listener);
+  }
+
+  /**
+   * Add middleware to the request pipeline
+   *
+   * Middleware runs in registration order for every HTTP attempt, including
+   * retries, and wraps the underlying fetch call.
+   *
+   * @param middleware - Middleware function
+   * @returns The client, for chaining
+   *
+   * @example
+   * ```typescript
+   * workbench.use(async (request, next) => {
+   *   request.headers['X-Gateway-Token'] = gatewayToken;
+   *   const started = Date.now();
+   *   const response = await next(request);
+   *   console.log(`${request.method} ${request.url} ${response.status} ${Date.now() - started}ms`);
+   *   return response;
+   * });
+   * ```
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Run a call for each item with bounded concurrency
+   *
+   * Never rejects because of a failed item: every item is reported as
+   * succeeded, failed (with its WorkbenchError) or skipped, and `retryable`
+   * lists the items worth resubmitting.
+   *
+   * @param items - Items to process
+   * @param fn - Call to make for each item
+   * @param options - Concurrency (default: 5), stopOnError and abort signal
+   * @returns Batch report
+   *
+   * @example
+   * ```typescript
+   * const report = await workbench.batch(
+   *   invoiceIds,
+   *   (id) => workbench.invoices.update(id, { status: 'sent' }),
+   *   { concurrency: 10 }
+   * );
+   *
+   * for (const { item, error } of report.failed) {
+   *   console.error(item, error.code, error.details);
+   * }
+   * ```
+   */
+  batch<TItem, TResult>(
+    items: readonly TItem[],
+    fn: (item: TItem, index: number) => PromiseLike<TResult>,
+    options?: BatchOptions
+  ): Promise<BatchResult<TItem, TResult>> {
+    return runBatch(items, fn, options);
+  }
+
+  /**
+   * Send a request through the middleware chain to fetch
+   */
+  private dispatch(request: HttpRequest, index = 0): Promise<Response> {
+    const middleware = this.middleware[index];
+
+    if (!middleware) {
+      return this.fetchFn(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
+        signal: request.signal,
+      });
+    }
+
+    return middleware(request, (next) => this.dispatch(next, index + 1));
   }
 
   /**
@@ -172,17 +545,58 @@ export class WorkbenchClient {
 
   /**
    * Sleep for a specified duration
+   *
+   * Resolves early if the signal is aborted; the caller checks the signal
+   * before its next attempt.
+   */
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      if (signal?.aborted) {
+        resolve();
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timeoutId);
+        resolve();
+      };
+      const timeoutId = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Calculate the delay before the next retry
+   *
+   * Uses the server-provided Retry-After delay when present, otherwise
+   * exponential backoff with jitter so concurrent clients spread out.
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private getRetryDelay(attempt: number, retryAfter: number | null = null): number {
+    if (retryAfter !== null) {
+      return retryAfter;
+    }
+
+    // Exponential backoff: 1s, 2s, 4s, etc., randomized to 50-100%
+    const delay = Math.min(1000 * Math.pow(2, attempt), 10000);
+    return delay / 2 + Math.random() * (delay / 2);
   }
 
   /**
-   * Calculate exponential backoff delay
+   * Record rate-limit headers and warn when quota is running low
    */
-  private getRetryDelay(attempt: number): number {
-    // Exponential backoff: 1s, 2s, 4s, etc.
-    return Math.min(1000 * Math.pow(2, attempt), 10000);
+  private updateRateLimit(headers: Headers): void {
+    const info = parseRateLimitHeaders(headers);
+    if (!info) {
+      return;
+    }
+
+    this.lastRateLimit = info;
+
+    if (info.limit > 0 && info.remaining / info.limit <= this.rateLimitWarningThreshold) {
+      this.events.emit('rateLimitWarning', info);
+    }
   }
 
   /**
@@ -193,42 +607,407 @@ export class WorkbenchClient {
     return status === 429 || (status >= 500 && status < 600);
   }
 
+  /**
+   * Resolve the idempotency key for a request
+   *
+   * Read requests never carry a key. Mutating requests use the explicit key,
+   * then any Idempotency-Key header, then a generated key if enabled.
+   */
+  private getIdempotencyKey(options: RequestOptions): string | undefined {
+    if (options.method === 'GET') {
+      return undefined;
+    }
+
+    if (options.idempotencyKey) {
+      return options.idempotencyKey;
+    }
+
+    const headerKey = Object.keys(options.headers ?? {}).find(
+      (name) => name.toLowerCase() === IDEMPOTENCY_HEADER.toLowerCase()
+    );
+    if (headerKey) {
+      return options.headers![headerKey];
+    }
+
+    return this.idempotencyKeys ? randomUUID() : undefined;
+  }
+
+  /**
+   * Determine if a request may be sent again after a failure
+   *
+   * Rate-limited requests were never processed, so they can always be
+   * retried. Other failures are only retried when repeating the request
+   * cannot apply it twice: idempotent methods, or requests with a key.
+   */
+  private canRetryRequest(
+    method: HttpMethod,
+    idempotencyKey: string | undefined,
+    status?: number
+  ): boolean {
+    if (status === 429) {
+      return true;
+    }
+
+    return IDEMPOTENT_METHODS.has(method) || idempotencyKey !== undefined;
+  }
+
+  /**
+   * Write a log entry if the level is enabled, redacting secrets
+   */
+  private log(level: Exclude<LogLevel, 'off'>, message: string, context: Record<string, unknown>): void {
+    if (isLevelEnabled(level, this.logLevel)) {
+      this.logger[level](message, redact({ mode: this.clientMode, ...context }) as Record<string, unknown>);
+    }
+  }
+
+  /**
+   * Check a response body against the endpoint's type
+   *
+   * Mismatches are always written to the logger in 'warn' mode, since the
+   * caller opted in to hearing about them, and thrown in 'throw' mode.
+   */
+  private checkResponse(
+    method: HttpMethod,
+    path: string,
+    body: unknown,
+    status: number,
+    requestId: string | undefined
+  ): void {
+    const validator = findResponseValidator(method, path);
+    const issues = validator?.validate(body) ?? [];
+    if (!validator || issues.length === 0) {
+      return;
+    }
+
+    const message = `Response from ${method} ${path} does not match ${validator.name}: ${formatIssues(issues)}`;
+    if (this.validateResponses === 'throw') {
+      throw new ResponseValidationError(message, issues, status, requestId);
+    }
+
+    this.logger.warn(message, redact({ mode: this.clientMode, method, path, requestId, issues }) as Record<string, unknown>);
+  }
+
+  /**
+   * Log and emit a retry before waiting for it
+   */
+  private notifyRetry(event: RetryEvent): void {
+    this.log('info', 'Retrying request', {
+      method: event.method,
+      path: event.path,
+      attempt: event.attempt,
+      delayMs: event.delayMs,
+      status: event.status,
+      code: event.error?.code,
+    });
+    this.events.emit('retry', event);
+  }
+
   /**
    * Make an API request
    *
+   * The returned promise resolves to the parsed response body. Call
+   * `.withResponse()` on it to also get the HTTP response metadata.
+   *
+   * A GET that matches one already in flight (same path, query and
+   * per-call options) shares its fetch instead of sending another request,
+   * unless `dedupeRequests` is disabled or the call has its own abort signal.
+   * Each caller receives its own copy of the response body.
+   *
    * @param options - Request options
    * @returns API response
    * @throws WorkbenchError if the request fails
    */
-  async request<T>(options: RequestOptions): Promise<T> {
-    const { method, path, query, body, headers } = options;
+  request<T>(options: RequestOptions): WorkbenchPromise<T> {
+    if (options.timeout !== undefined) {
+      // Reject with the RangeError itself, before the call is wrapped in API errors
+      try {
+        validateTimeout(options.timeout);
+      } catch (error) {
+        return new WorkbenchPromise(Promise.reject(error));
+      }
+    }
+
+    const json = (options.responseType ?? 'json') === 'json';
+
+    // A stream can only be read once, so binary downloads are never shared
+    if (!this.dedupeRequests || options.method !== 'GET' || options.signal || !json) {
+      return new WorkbenchPromise(this.execute<T>(options).then((result) => this.finish(result, json, false)));
+    }
+
+    const key = this.dedupeKey(options);
+    let pending = this.inFlight.get(key) as Promise<WithResponse<T>> | undefined;
+
+    if (!pending) {
+      pending = this.execute<T>(options).finally(() => this.inFlight.delete(key));
+      this.inFlight.set(key, pending);
+    }
+
+    return new WorkbenchPromise(pending.then((result) => this.finish(result, json, true)));
+  }
+
+  /**
+   * Key under which identical in-flight GET requests are shared
+   *
+   * Includes every per-call option that changes what is sent or how the
+   * response is read, so e.g. a `cache: false` read or a call with its own
+   * headers never receives another call's result.
+   */
+  private dedupeKey(options: RequestOptions): string {
+    const headers = Object.entries(options.headers ?? {})
+      .map(([name, value]) => [name.toLowerCase(), value])
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+    return JSON.stringify([
+      this.buildUrl(options.path, options.query),
+      headers,
+      options.cache,
+      options.timeout,
+      options.maxRetries,
+      options.priority,
+    ]);
+  }
+
+  /**
+   * Give a caller its own copy of the response body
+   *
+   * Hydrating dates already produces a copy; a shared body is cloned so one
+   * caller's changes never show up in another's result.
+   */
+  private finish<T>(result: WithResponse<T>, json: boolean, shared: boolean): WithResponse<T> {
+    if (json && this.dates === 'date') {
+      return { ...result, data: hydrateDates(result.data) as T };
+    }
+    return shared ? { ...result, data: structuredClone(result.data) } : result;
+  }
+
+  /**
+   * Run an SDK call, recording a trace span and lifecycle events around it
+   */
+  private async execute<T>(options: RequestOptions): Promise<WithResponse<T>> {
+    const call: RequestEvent = {
+      method: options.method,
+      path: options.path,
+      resource: getResourceName(options.path),
+    };
+    const state = { attempts: 0 };
+    const startedAt = Date.now();
+
+    const span = this.tracer?.startSpan(`workbench ${call.resource} ${call.method}`, {
+      kind: SPAN_KIND_CLIENT,
+      attributes: {
+        'workbench.resource': call.resource,
+        'workbench.mode': this.clientMode,
+        'http.request.method': call.method,
+        'url.path': call.path,
+      },
+    });
+
+    this.events.emit('request', call);
+
+    try {
+      const result = await this.send<T>(options, call, state);
+      const { status, requestId, durationMs, attempts } = result.response;
+
+      span?.setAttribute('workbench.attempts', attempts);
+      span?.setAttribute('http.response.status_code', status);
+      if (requestId) {
+        span?.setAttribute('workbench.request_id', requestId);
+      }
+      span?.setStatus({ code: SPAN_STATUS_OK });
+
+      this.events.emit('response', { ...call, status, requestId, durationMs, attempts });
+      return result;
+    } catch (error) {
+      const wrapped = error instanceof WorkbenchError
+        ? error
+        : new WorkbenchError(
+          error instanceof Error ? error.message : String(error),
+          0,
+          'UNKNOWN_ERROR',
+          undefined,
+          undefined,
+          { cause: error }
+        );
+      wrapped.mode = this.clientMode;
+
+      span?.setAttribute('workbench.attempts', state.attempts);
+      span?.setAttribute('workbench.error_code', wrapped.code);
+      if (wrapped.status) {
+        span?.setAttribute('http.response.status_code', wrapped.status);
+      }
+      if (wrapped.requestId) {
+        span?.setAttribute('workbench.request_id', wrapped.requestId);
+      }
+      span?.recordException(wrapped);
+      span?.setStatus({ code: SPAN_STATUS_ERROR, message: wrapped.message });
+
+      this.log('debug', 'Request failed', {
+        method: call.method,
+        path: call.path,
+        status: wrapped.status,
+        code: wrapped.code,
+        requestId: wrapped.requestId,
+        attempts: state.attempts,
+        durationMs: Date.now() - startedAt,
+      });
+
+      this.events.emit('error', {
+        ...call,
+        error: wrapped,
+        durationMs: Date.now() - startedAt,
+        attempts: state.attempts,
+      });
+      throw wrapped;
+    } finally {
+      span?.end();
+    }
+  }
+
+  /**
+   * Send a request with retries and return the body with response metadata
+   *
+   * `state.attempts` is kept up to date so the caller can report it on failure.
+   */
+  private async send<T>(
+    options: RequestOptions,
+    call: RequestEvent,
+    state: { attempts: number }
+  ): Promise<WithResponse<T>> {
+    const { method, path, query, body, headers, signal } = options;
+    const startedAt = Date.now();
     const url = this.buildUrl(path, query);
+    const timeout = options.timeout ?? this.timeout;
+    const maxRetries = options.maxRetries ?? this.maxRetries;
+    const responseType = options.responseType ?? 'json';
+
+    // Generated once so every retry of this call shares the same key
+    const idempotencyKey = this.getIdempotencyKey(options);
 
     const requestHeaders: Record<string, string> = {
-      'Authorization': this.authHeader,
       'Content-Type': 'application/json',
       'Accept': 'application/json',
       ...headers,
     };
 
-    let lastError: Error | null = null;
+    if (idempotencyKey) {
+      for (const name of Object.keys(requestHeaders)) {
+        if (name.toLowerCase() === IDEMPOTENCY_HEADER.toLowerCase()) {
+          delete requestHeaders[name];
+        }
+      }
+      requestHeaders[IDEMPOTENCY_HEADER] = idempotencyKey;
+    }
+
+    // Serve fresh GET responses from the cache; stale entries are revalidated
+    const cache = method === 'GET' && options.cache !== false && responseType === 'json' ? this.cache : null;
+    const cacheKey = cache ? await cache.key(url, call.resource) : '';
+    const cached = cache ? await cache.get(cacheKey) : undefined;
+
+    if (cached && cache?.isFresh(cached)) {
+      this.log('debug', 'Served from cache', { method, url: url.split('?')[0] });
+      return {
+        data: (cached.body ? JSON.parse(cached.body) : {}) as T,
+        response: {
+          status: cached.status,
+          headers: new Headers(),
+          durationMs: Date.now() - startedAt,
+          attempts: 0,
+          cached: true,
+        },
+      };
+    }
+
+    if (cached) {
+      Object.assign(requestHeaders, cache?.conditionalHeaders(cached));
+    }
+
+    let lastError: WorkbenchError | null = null;
+
+    // Raised by one when a rejected token is refreshed, so the retry is free
+    let attemptLimit = maxRetries;
+    let tokenRefreshed = false;
+    let refreshNeeded = false;
+    let token: string | undefined;
+
+    for (let attempt = 0; attempt <= attemptLimit; attempt++) {
+      // Resolved per attempt so a refreshed token is picked up by retries
+      const pendingToken = refreshNeeded ? this.tokens.refresh(token) : this.tokens.getToken();
+      token = typeof pendingToken === 'string' ? pendingToken : await pendingToken;
+      refreshNeeded = false;
+      const attemptHeaders = { 'Authorization': `Bearer ${token}`, ...requestHeaders };
+
+      if (signal?.aborted) {
+        throw new WorkbenchError('Request aborted', 0, 'ABORTED');
+      }
+
+      // Wait for a queue slot; the timeout starts once the slot is granted
+      const pendingSlot = this.queue.acquire(options.priority, signal);
+      const release = typeof pendingSlot === 'function' ? pendingSlot : await pendingSlot;
+
+      // Abort on timeout or when the caller's signal fires
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), timeout);
+      const onAbort = () => controller.abort();
+      signal?.addEventListener('abort', onAbort, { once: true });
+      let settleCircuit: SettleFunction | undefined;
+      let streaming = false;
 
-    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
       try {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+        // Fails fast with CircuitOpenError while the API is degraded
+        settleCircuit = this.circuit?.acquire();
+        state.attempts = attempt + 1;
+
+        const attemptStartedAt = Date.now();
+        this.log('debug', 'Sending request', {
+          method,
+          url: url.split('?')[0],
+          query,
+          attempt,
+          headers: attemptHeaders,
+          body,
+        });
 
-        const response = await fetch(url, {
+        const response = await this.dispatch({
           method,
-          headers: requestHeaders,
-          body: body ? JSON.stringify(body) : undefined,
+          url,
+          headers: attemptHeaders,
+          body: body ? JSON.stringify(body, serializeDates) : undefined,
           signal: controller.signal,
+          attempt,
         });
 
-        clearTimeout(timeoutId);
+        this.updateRateLimit(response.headers);
+        settleCircuit?.(response.status >= 500 ? 'failure' : response.status === 429 ? 'ignored' : 'success');
+
+        // Not modified: reuse the cached body
+        const hit = response.status === 304 ? cached : undefined;
+
+        if (responseType !== 'json' && response.ok) {
+          this.log('debug', 'Received response', {
+            method,
+            url: url.split('?')[0],
+            attempt,
+            status: response.status,
+            durationMs: Date.now() - attemptStartedAt,
+            requestId: response.headers.get('x-request-id') ?? undefined,
+            contentType: response.headers.get('content-type') ?? undefined,
+          });
+
+          streaming = responseType === 'stream';
+          return {
+            data: (streaming ? response.body ?? emptyStream() : Buffer.from(await response.arrayBuffer())) as T,
+            response: {
+              status: response.status,
+              headers: response.headers,
+              requestId: response.headers.get('x-request-id') ?? undefined,
+              durationMs: Date.now() - startedAt,
+              attempts: attempt + 1,
+            },
+          };
+        }
 
         // Parse response
-        const responseText = await response.text();
+        const responseText = hit ? hit.body : await response.text();
         let responseData: T | ApiError;
 
         try {
@@ -241,49 +1020,110 @@ export class WorkbenchClient {
           );
         }
 
+        this.log('debug', 'Received response', {
+          method,
+          url: url.split('?')[0],
+          attempt,
+          status: response.status,
+          durationMs: Date.now() - attemptStartedAt,
+          requestId: response.headers.get('x-request-id') ?? undefined,
+          body: responseData,
+        });
+
         // Handle error responses
-        if (!response.ok) {
-          const errorResponse = responseData as ApiError;
+        if (!response.ok && !hit) {
+          // Expired or revoked token: refresh once and retry
+          if (response.status === 401 && !tokenRefreshed && this.tokens.canRefresh) {
+            tokenRefreshed = true;
+            refreshNeeded = true;
+            attemptLimit++;
+            this.log('info', 'Refreshing access token', { method, path, attempt });
+            continue;
+          }
 
           // Check if retryable
-          if (this.isRetryable(response.status) && attempt < this.maxRetries) {
-            const delay = this.getRetryDelay(attempt);
-            await this.sleep(delay);
+          const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+          if (
+            this.isRetryable(response.status) &&
+            this.canRetryRequest(method, idempotencyKey, response.status) &&
+            attempt < attemptLimit &&
+            (retryAfter === null || retryAfter <= MAX_RETRY_AFTER)
+          ) {
+            const delay = this.getRetryDelay(attempt, retryAfter);
+            this.notifyRetry({ ...call, attempt: attempt + 1, delayMs: delay, status: response.status });
+            release();
+            await this.sleep(delay, signal);
             continue;
           }
 
-          throw new WorkbenchError(
-            errorResponse.error?.message || 'Unknown error',
-            response.status,
-            errorResponse.error?.code || 'UNKNOWN_ERROR',
-            errorResponse.error?.details,
-            errorResponse.meta?.request_id
-          );
+          throw createApiError(response.status, responseData as ApiError, retryAfter);
+        }
+
+        const requestId = response.headers.get('x-request-id') ??
+          (responseData as { meta?: { request_id?: string } }).meta?.request_id;
+
+        if (this.validateResponses) {
+          this.checkResponse(method, path, responseData, response.status, requestId);
+        }
+
+        if (cache && hit) {
+          await cache.refresh(cacheKey, call.resource, hit);
+        } else if (cache) {
+          await cache.set(cacheKey, call.resource, response.status, response.headers, responseText);
+        } else if (this.cache && method !== 'GET') {
+          // The resource changed, so every cached record and list of it is stale
+          await this.cache.invalidate(call.resource);
         }
 
-        return responseData as T;
+        return {
+          data: responseData as T,
+          response: {
+            status: hit ? hit.status : response.status,
+            headers: response.headers,
+            requestId,
+            durationMs: Date.now() - startedAt,
+            attempts: attempt + 1,
+            ...(hit && { cached: true }),
+          },
+        };
       } catch (error) {
         if (error instanceof WorkbenchError) {
           throw error;
         }
 
+        // Cancelled by the caller: never retry
+        if (signal?.aborted) {
+          throw new WorkbenchError('Request aborted', 0, 'ABORTED');
+        }
+
         // Handle abort/timeout
         if (error instanceof Error && error.name === 'AbortError') {
-          lastError = new WorkbenchError(
-            'Request timeout',
-            0,
-            'TIMEOUT'
-          );
+          lastError = new TimeoutError(`Request timed out after ${timeout}ms`);
         } else {
-          lastError = error instanceof Error ? error : new Error(String(error));
+          const message = error instanceof Error ? error.message : String(error);
+          lastError = new ConnectionError(`Connection error: ${message}`, error);
         }
 
+        settleCircuit?.('failure');
+
         // Retry on network errors
-        if (attempt < this.maxRetries) {
+        if (this.canRetryRequest(method, idempotencyKey) && attempt < attemptLimit) {
           const delay = this.getRetryDelay(attempt);
-          await this.sleep(delay);
+          this.notifyRetry({ ...call, attempt: attempt + 1, delayMs: delay, error: lastError });
+          release();
+          await this.sleep(delay, signal);
           continue;
         }
+
+        throw lastError;
+      } finally {
+        clearTimeout(timeoutId);
+        // Keep the caller's signal wired up so it can still cancel a returned stream
+        if (!streaming) {
+          signal?.removeEventListener('abort', onAbort);
+        }
+        settleCircuit?.('ignored');
+        release();
       }
     }
 
@@ -294,28 +1134,32 @@ export class WorkbenchClient {
   /**
    * Make a GET request
    */
-  async get<T>(path: string, query?: Record<string, string | number | boolean | undefined>): Promise<T> {
-    return this.request<T>({ method: 'GET', path, query });
+  get<T>(
+    path: string,
+    query?: Record<string, string | number | boolean | undefined>,
+    config?: RequestConfig
+  ): WorkbenchPromise<T> {
+    return this.request<T>({ ...config, method: 'GET', path, query });
   }
 
   /**
    * Make a POST request
    */
-  async post<T>(path: string, body?: unknown): Promise<T> {
-    return this.request<T>({ method: 'POST', path, body });
+  post<T>(path: string, body?: unknown, config?: RequestConfig): WorkbenchPromise<T> {
+    return this.request<T>({ ...config, method: 'POST', path, body });
   }
 
   /**
    * Make a PUT request
    */
-  async put<T>(path: string, body?: unknown): Promise<T> {
-    return this.request<T>({ method: 'PUT', path, body });
+  put<T>(path: string, body?: unknown, config?: RequestConfig): WorkbenchPromise<T> {
+    return this.request<T>({ ...config, method: 'PUT', path, body });
   }
 
   /**
    * Make a DELETE request
    */
-  async delete<T>(path: string): Promise<T> {
-    return this.request<T>({ method: 'DELETE', path });
+  delete<T>(path: string, config?: RequestConfig): WorkbenchPromise<T> {
+    return this.request<T>({ ...config, method: 'DELETE', path });
   }
 }
@@ -0,0 +1,292 @@
+/**
+ * @file errors.ts
+ * @description Error classes thrown by the Workbench SDK
+ *
+ * Every failure surfaces as a WorkbenchError. Subclasses identify the kind
+ * of failure so callers can use `instanceof` instead of comparing status
+ * codes, while `code` carries the machine-readable error code.
+ */
+
+import type { ApiError, ValidationIssue, WorkbenchMode } from './types/index.js';
+
+/**
+ * Known error codes returned by the API or produced by the SDK
+ */
+export type WorkbenchErrorCode =
+  // API errors
+  | 'BAD_REQUEST'
+  | 'VALIDATION_ERROR'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'RATE_LIMITED'
+  | 'INTERNAL_ERROR'
+  | 'SERVICE_UNAVAILABLE'
+  // SDK errors
+  | 'TIMEOUT'
+  | 'NETWORK_ERROR'
+  | 'ABORTED'
+  | 'CIRCUIT_OPEN'
+  | 'INVALID_STATE'
+  | 'INVALID_RESPONSE'
+  | 'UNKNOWN_ERROR';
+
+/**
+ * Field-level error detail returned with validation failures
+ */
+export interface ErrorDetail {
+  field: string;
+  message: string;
+}
+
+/**
+ * Error thrown when an API request fails
+ */
+export class WorkbenchError extends Error {
+  /** HTTP status code (0 if no response was received) */
+  public readonly status: number;
+  /** Error code from the API or SDK */
+  public readonly code: WorkbenchErrorCode | (string & {});
+  /** Additional error details */
+  public readonly details?: ErrorDetail[];
+  /** Request ID for debugging */
+  public readonly requestId?: string;
+  /** Mode of the client that made the request (set by the client) */
+  public mode?: WorkbenchMode;
+
+  constructor(
+    message: string,
+    status: number,
+    code: WorkbenchErrorCode | (string & {}),
+    details?: ErrorDetail[],
+    requestId?: string,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = 'WorkbenchError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+    this.requestId = requestId;
+  }
+}
+
+/**
+ * The API key or access token is missing, invalid or expired (401)
+ */
+export class AuthenticationError extends WorkbenchError {
+  constructor(message: string, code: string = 'UNAUTHORIZED', details?: ErrorDetail[], requestId?: string) {
+    super(message, 401, code, details, requestId);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * The credentials are valid but lack permission or scope for the request (403)
+ */
+export class PermissionError extends WorkbenchError {
+  constructor(message: string, code: string = 'FORBIDDEN', details?: ErrorDetail[], requestId?: string) {
+    super(message, 403, code, details, requestId);
+    this.name = 'PermissionError';
+  }
+}
+
+/**
+ * The requested resource does not exist (404)
+ */
+export class NotFoundError extends WorkbenchError {
+  constructor(message: string, code: string = 'NOT_FOUND', details?: ErrorDetail[], requestId?: string) {
+    super(message, 404, code, details, requestId);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * The request conflicts with the current state of the resource (409)
+ */
+export class ConflictError extends WorkbenchError {
+  constructor(message: string, code: string = 'CONFLICT', details?: ErrorDetail[], requestId?: string) {
+    super(message, 409, code, details, requestId);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * The request body or parameters failed validation (400/422)
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await workbench.clients.create({ first_name: '' });
+ * } catch (error) {
+ *   if (error instanceof ValidationError) {
+ *     console.log(error.fields.first_name); // ['First name is required']
+ *   }
+ * }
+ * ```
+ */
+export class ValidationError extends WorkbenchError {
+  /** Error messages grouped by field name */
+  public readonly fields: Record<string, string[]>;
+
+  constructor(
+    message: string,
+    status: number = 422,
+    code: string = 'VALIDATION_ERROR',
+    details?: ErrorDetail[],
+    requestId?: string
+  ) {
+    super(message, status, code, details, requestId);
+    this.name = 'ValidationError';
+    this.fields = {};
+    for (const detail of details ?? []) {
+      (this.fields[detail.field] ??= []).push(detail.message);
+    }
+  }
+}
+
+/**
+ * Too many requests were sent (429)
+ */
+export class RateLimitError extends WorkbenchError {
+  /** Server-requested delay before retrying, in milliseconds (null if not sent) */
+  public readonly retryAfter: number | null;
+
+  constructor(
+    message: string,
+    retryAfter: number | null = null,
+    code: string = 'RATE_LIMITED',
+    details?: ErrorDetail[],
+    requestId?: string
+  ) {
+    super(message, 429, code, details, requestId);
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * The API failed to process the request (5xx)
+ */
+export class ServerError extends WorkbenchError {
+  constructor(
+    message: string,
+    status: number = 500,
+    code: string = 'INTERNAL_ERROR',
+    details?: ErrorDetail[],
+    requestId?: string
+  ) {
+    super(message, status, code, details, requestId);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * The request did not complete within the configured timeout
+ */
+export class TimeoutError extends WorkbenchError {
+  constructor(message: string = 'Request timeout') {
+    super(message, 0, 'TIMEOUT');
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * The API could not be reached (DNS failure, connection refused, reset, etc.)
+ */
+export class ConnectionError extends WorkbenchError {
+  constructor(message: string, cause?: unknown) {
+    super(message, 0, 'NETWORK_ERROR', undefined, undefined, { cause });
+    this.name = 'ConnectionError';
+  }
+}
+
+/**
+ * A response body did not match the SDK's type for it
+ */
+export class ResponseValidationError extends WorkbenchError {
+  /** Every mismatch found, with its path in the response body */
+  public readonly issues: ValidationIssue[];
+
+  constructor(message: string, issues: ValidationIssue[], status: number, requestId?: string) {
+    super(message, status, 'INVALID_RESPONSE', undefined, requestId);
+    this.name = 'ResponseValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * The record's status does not allow the requested operation, e.g.
+ * converting a quote that has not been approved
+ */
+export class InvalidStateError extends WorkbenchError {
+  /** Status the record is in */
+  public readonly currentStatus: string;
+  /** Statuses from which the operation is allowed */
+  public readonly allowedStatuses: readonly string[];
+
+  constructor(message: string, currentStatus: string, allowedStatuses: readonly string[]) {
+    super(message, 0, 'INVALID_STATE');
+    this.name = 'InvalidStateError';
+    this.currentStatus = currentStatus;
+    this.allowedStatuses = allowedStatuses;
+  }
+}
+
+/**
+ * The circuit breaker is open, so the request was not sent
+ */
+export class CircuitOpenError extends WorkbenchError {
+  /** Time until the circuit lets a probe request through, in milliseconds */
+  public readonly retryAfter: number;
+
+  constructor(message: string, retryAfter: number) {
+    super(message, 0, 'CIRCUIT_OPEN');
+    this.name = 'CircuitOpenError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Create the appropriate error for an unsuccessful API response
+ *
+ * @param status - HTTP status code
+ * @param body - Parsed error response body
+ * @param retryAfter - Retry-After delay in milliseconds, if any
+ * @returns Error subclass matching the status code
+ */
+export function createApiError(
+  status: number,
+  body: Partial<ApiError> | undefined,
+  retryAfter: number | null = null
+): WorkbenchError {
+  const message = body?.error?.message || 'Unknown error';
+  const code = body?.error?.code;
+  const details = body?.error?.details;
+  const requestId = body?.meta?.request_id;
+
+  switch (status) {
+    case 400:
+    case 422:
+      return code && code !== 'VALIDATION_ERROR' && !details
+        ? new WorkbenchError(message, status, code, details, requestId)
+        : new ValidationError(message, status, code, details, requestId);
+    case 401:
+      return new AuthenticationError(message, code, details, requestId);
+    case 403:
+      return new PermissionError(message, code, details, requestId);
+    case 404:
+      return new NotFoundError(message, code, details, requestId);
+    case 409:
+      return new ConflictError(message, code, details, requestId);
+    case 429:
+      return new RateLimitError(message, retryAfter, code, details, requestId);
+  }
+
+  if (status >= 500) {
+    return new ServerError(message, status, code, details, requestId);
+  }
+
+  return new WorkbenchError(message, status, code || 'UNKNOWN_ERROR', details, requestId);
+}
@@ -28,12 +28,31 @@
  */
 
 // Main client
-export { WorkbenchClient, WorkbenchError } from './client.js';
+export { WorkbenchClient } from './client.js';
 export type { RequestOptions } from './client.js';
 
+// Errors
+export {
+  WorkbenchError,
+  AuthenticationError,
+  PermissionError,
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+  ConnectionError,
+  CircuitOpenError,
+  ResponseValidationError,
+  InvalidStateError,
+} from './errors.js';
+export type { WorkbenchErrorCode, ErrorDetail } from './errors.js';
+
 // Resources
 export { ClientsResource } from './resources/clients.js';
 export { InvoicesResource } from './resources/invoices.js';
+export { InvoicePaymentsResource } from './resources/invoice-payments.js';
 export { QuotesResource } from './resources/quotes.js';
 export { JobsResource } from './resources/jobs.js';
 export { RequestsResource } from './resources/requests.js';
@@ -41,27 +60,132 @@ export { WebhooksResource } from './resources/webhooks.js';
 export { NotificationsResource } from './resources/notifications.js';
 export { IntegrationsResource } from './resources/integrations.js';
 
+// Response handling
+export { WorkbenchPromise } from './utils/workbench-promise.js';
+
+// Pagination
+export { PageIterator } from './utils/pagination.js';
+export type { PageParams, PageFetcher, ToArrayOptions } from './utils/pagination.js';
+
+// Response caching
+export { MemoryCacheStore } from './utils/cache.js';
+
+// Dates
+export { DateOnly } from './utils/dates.js';
+export type { WithDates, DatedResource } from './utils/dates.js';
+
+// Runtime validation
+export { validators } from './utils/validators.js';
+export type { Validator } from './utils/validators.js';
+
+// Bulk operations
+export type {
+  BatchOptions,
+  BatchResult,
+  BatchSuccess,
+  BatchFailure,
+  BatchSkipped,
+  BatchUpdate,
+  BulkWriteOptions,
+} from './utils/batch.js';
+
 // Webhook utilities
 export {
   verifyWebhookSignature,
   constructWebhookEvent,
   parseSignatureHeader,
   computeSignature,
+  generateSignatureHeader,
   WebhookVerificationError,
 } from './utils/webhook-verify.js';
 export type { WebhookSignature, VerifyOptions } from './utils/webhook-verify.js';
 
+// OAuth utilities
+export {
+  generateCodeVerifier,
+  generateCodeChallenge,
+  generateState,
+  buildAuthorizationUrl,
+  createAuthorizationRequest,
+  verifyState,
+  parseAuthorizationCallback,
+  exchangeAuthorizationCode,
+  refreshAccessToken,
+  OAuthError,
+} from './utils/oauth.js';
+export type {
+  OAuthConfig,
+  OAuthClientConfig,
+  AuthorizationUrlOptions,
+  AuthorizationRequest,
+  OAuthTokens,
+} from './utils/oauth.js';
+
+// Events
+export type { EventListener } from './utils/events.js';
+
 // Types
 export type {
   // Configuration
   WorkbenchConfig,
+  WorkbenchMode,
+  TokenProvider,
+  DateMode,
+  DateInput,
+  DateTimeInput,
+  RequestConfig,
   ListOptions,
 
+  // Transport and middleware
+  HttpMethod,
+  ResponseType,
+  HttpRequest,
+  FetchFunction,
+  Middleware,
+  MiddlewareNext,
+
+  // Queueing
+  RequestPriority,
+  QueueStats,
+
+  // Validation
+  ValidationMode,
+  ValidationIssue,
+
+  // Circuit breaker
+  CircuitState,
+  CircuitBreakerOptions,
+  CircuitStateChangeEvent,
+
+  // Caching
+  CacheStore,
+  CacheEntry,
+  CacheOptions,
+
+  // Rate limiting and events
+  RateLimitInfo,
+  WorkbenchClientEvents,
+  RequestEvent,
+  RetryEvent,
+  ResponseEvent,
+  RequestErrorEvent,
+
+  // Tracing
+  Tracer,
+  Span,
+  SpanAttributeValue,
+
+  // Logging
+  Logger,
+  LogLevel,
+
   // API Response types
   ResponseMeta,
   Pagination,
   ApiResponse,
   ListResponse,
+  ResponseInfo,
+  WithResponse,
   ApiError,
 
   // Client types
@@ -79,12 +203,23 @@ export type {
   UpdateInvoiceOptions,
   ListInvoicesOptions,
 
+  // Payment types
+  Payment,
+  PaymentMethod,
+  CreatePaymentOptions,
+  RefundPaymentOptions,
+  MarkInvoicePaidOptions,
+  PaymentResult,
+
   // Quote types
   Quote,
   QuoteItem,
   QuoteStatus,
   CreateQuoteOptions,
   UpdateQuoteOptions,
+  ApproveQuoteOptions,
+  RejectQuoteOptions,
+  QuoteConversion,
   ListQuotesOptions,
 
   // Job types
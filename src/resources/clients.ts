@@ -6,6 +6,10 @@
  */
 
 import type { WorkbenchClient } from '../client.js';
+import { PageIterator } from '../utils/pagination.js';
+import type { WorkbenchPromise } from '../utils/workbench-promise.js';
+import { bulkItemConfig } from '../utils/batch.js';
+import type { BatchResult, BatchUpdate, BulkWriteOptions } from '../utils/batch.js';
 import type {
   Client,
   CreateClientOptions,
@@ -13,6 +17,7 @@ import type {
   ListClientsOptions,
   ApiResponse,
   ListResponse,
+  RequestConfig,
 } from '../types/index.js';
 
 /**
@@ -60,6 +65,7 @@ export class ClientsResource {
    * Returns a paginated list of clients for the authenticated business.
    *
    * @param options - List options (pagination, filtering, sorting)
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Paginated list of clients
    *
    * @example
@@ -74,21 +80,45 @@ export class ClientsResource {
    * console.log(`Found ${pagination.total} clients`);
    * ```
    */
-  async list(options: ListClientsOptions = {}): Promise<ListResponse<Client>> {
+  list(options: ListClientsOptions = {}, config?: RequestConfig): WorkbenchPromise<ListResponse<Client>> {
     return this.client.get<ListResponse<Client>>('/v1/clients', {
       page: options.page,
       per_page: options.per_page,
+      limit: options.limit,
+      offset: options.offset,
       search: options.search,
       sort: options.sort,
       order: options.order,
       status: options.status,
-    });
+    }, config);
+  }
+
+  /**
+   * Iterate over all clients
+   *
+   * Automatically fetches subsequent pages as the iterator is consumed.
+   * Accepts the same filters as `list()`.
+   *
+   * @param options - List options (filtering, sorting, starting page)
+   * @param config - Per-request options applied to every page request
+   * @returns Async iterator over every matching client
+   *
+   * @example
+   * ```typescript
+   * for await (const client of workbench.clients.listAll({ status: 'active' })) {
+   *   console.log(client.email);
+   * }
+   * ```
+   */
+  listAll(options: ListClientsOptions = {}, config?: RequestConfig): PageIterator<Client> {
+    return new PageIterator((params) => this.list({ ...options, ...params }, config), options);
   }
 
   /**
    * Get a client by ID
    *
    * @param id - Client UUID
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Client details
    *
    * @example
@@ -97,14 +127,15 @@ export class ClientsResource {
    * console.log(`Client: ${client.first_name} ${client.last_name}`);
    * ```
    */
-  async get(id: string): Promise<ApiResponse<Client>> {
-    return this.client.get<ApiResponse<Client>>(`/v1/clients/${id}`);
+  get(id: string, config?: RequestConfig): WorkbenchPromise<ApiResponse<Client>> {
+    return this.client.get<ApiResponse<Client>>(`/v1/clients/${id}`, undefined, config);
   }
 
   /**
    * Create a new client
    *
    * @param data - Client data
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Created client
    *
    * @example
@@ -121,8 +152,8 @@ export class ClientsResource {
    * });
    * ```
    */
-  async create(data: CreateClientOptions): Promise<ApiResponse<Client>> {
-    return this.client.post<ApiResponse<Client>>('/v1/clients', data);
+  create(data: CreateClientOptions, config?: RequestConfig): WorkbenchPromise<ApiResponse<Client>> {
+    return this.client.post<ApiResponse<Client>>('/v1/clients', data, config);
   }
 
   /**
@@ -130,6 +161,7 @@ export class ClientsResource {
    *
    * @param id - Client UUID
    * @param data - Fields to update
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Updated client
    *
    * @example
@@ -140,8 +172,74 @@ export class ClientsResource {
    * });
    * ```
    */
-  async update(id: string, data: UpdateClientOptions): Promise<ApiResponse<Client>> {
-    return this.client.put<ApiResponse<Client>>(`/v1/clients/${id}`, data);
+  update(id: string, data: UpdateClientOptions, config?: RequestConfig): WorkbenchPromise<ApiResponse<Client>> {
+    return this.client.put<ApiResponse<Client>>(`/v1/clients/${id}`, data, config);
+  }
+
+  /**
+   * Create many clients
+   *
+   * Sends one create request per item with bounded concurrency and reports
+   * each outcome instead of failing on the first error.
+   *
+   * @param items - Client data for each client
+   * @param options - Concurrency (default: 5), stopOnError, abort signal and a key for each item
+   * @param config - Per-request options applied to every create request; a shared `idempotencyKey` is dropped
+   * @returns Batch report of created clients, failures and retryable leftovers
+   *
+   * @example
+   * ```typescript
+   * const report = await workbench.clients.createMany(
+   *   rows.map((row) => ({ first_name: row.first, last_name: row.last, email: row.email }))
+   * );
+   *
+   * // Resubmit rate-limited or failed-by-server items later
+   * await workbench.clients.createMany(report.retryable);
+   * ```
+   */
+  createMany(
+    items: readonly CreateClientOptions[],
+    options: BulkWriteOptions<CreateClientOptions> = {},
+    config?: RequestConfig
+  ): Promise<BatchResult<CreateClientOptions, ApiResponse<Client>>> {
+    const { idempotencyKey, ...batchOptions } = options;
+    return this.client.batch(
+      items,
+      (data) => this.create(data, bulkItemConfig(data, idempotencyKey, config)),
+      { signal: config?.signal, ...batchOptions }
+    );
+  }
+
+  /**
+   * Update many clients
+   *
+   * @param updates - Client ID and changes for each client
+   * @param options - Concurrency (default: 5), stopOnError, abort signal and a key for each item
+   * @param config - Per-request options applied to every update request; `idempotencyKey` is joined to each ID
+   * @returns Batch report of updated clients, failures and retryable leftovers
+   *
+   * @example
+   * ```typescript
+   * const report = await workbench.clients.updateMany(
+   *   [
+   *     { id: 'client-1', data: { status: 'inactive' } },
+   *     { id: 'client-2', data: { status: 'inactive' } }
+   *   ],
+   *   { concurrency: 10 }
+   * );
+   * ```
+   */
+  updateMany(
+    updates: readonly BatchUpdate<UpdateClientOptions>[],
+    options: BulkWriteOptions<BatchUpdate<UpdateClientOptions>> = {},
+    config?: RequestConfig
+  ): Promise<BatchResult<BatchUpdate<UpdateClientOptions>, ApiResponse<Client>>> {
+    const { idempotencyKey, ...batchOptions } = options;
+    return this.client.batch(
+      updates,
+      (update) => this.update(update.id, update.data, bulkItemConfig(update, idempotencyKey, config, update.id)),
+      { signal: config?.signal, ...batchOptions }
+    );
   }
 
   /**
@@ -151,13 +249,14 @@ export class ClientsResource {
    * This action cannot be undone.
    *
    * @param id - Client UUID
+   * @param config - Per-request options (signal, timeout, retries, headers)
    *
    * @example
    * ```typescript
    * await workbench.clients.delete('client-uuid');
    * ```
    */
-  async delete(id: string): Promise<void> {
-    await this.client.delete<void>(`/v1/clients/${id}`);
+  delete(id: string, config?: RequestConfig): WorkbenchPromise<void> {
+    return this.client.delete<void>(`/v1/clients/${id}`, config).map(() => undefined);
   }
 }
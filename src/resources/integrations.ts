@@ -9,6 +9,8 @@
  */
 
 import type { WorkbenchClient } from '../client.js';
+import { PageIterator } from '../utils/pagination.js';
+import type { WorkbenchPromise } from '../utils/workbench-promise.js';
 import type {
   ApiResponse,
   ListResponse,
@@ -18,6 +20,7 @@ import type {
   ListIntegrationsOptions,
   ListIntegrationReviewsOptions,
   InstallIntegrationOptions,
+  RequestConfig,
 } from '../types/index.js';
 
 /**
@@ -59,6 +62,7 @@ export class IntegrationsResource {
    * This endpoint is publicly accessible.
    *
    * @param options - List options (pagination, filtering, sorting)
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Paginated list of integrations
    *
    * @example
@@ -79,15 +83,41 @@ export class IntegrationsResource {
    * });
    * ```
    */
-  async list(options: ListIntegrationsOptions = {}): Promise<ListResponse<Integration>> {
+  list(
+    options: ListIntegrationsOptions = {},
+    config?: RequestConfig
+  ): WorkbenchPromise<ListResponse<Integration>> {
     return this.client.get<ListResponse<Integration>>('/v1/integrations', {
       page: options.page,
       per_page: options.per_page,
+      limit: options.limit,
+      offset: options.offset,
       search: options.search,
       category: options.category,
       scope: options.scope,
       sort_by: options.sort_by,
-    });
+    }, config);
+  }
+
+  /**
+   * Iterate over all published integrations
+   *
+   * Automatically fetches subsequent pages as the iterator is consumed.
+   * Accepts the same filters as `list()`.
+   *
+   * @param options - List options (filtering, sorting, starting page)
+   * @param config - Per-request options applied to every page request
+   * @returns Async iterator over every matching integration
+   *
+   * @example
+   * ```typescript
+   * for await (const integration of workbench.integrations.listAll({ category: 'accounting' })) {
+   *   console.log(integration.name);
+   * }
+   * ```
+   */
+  listAll(options: ListIntegrationsOptions = {}, config?: RequestConfig): PageIterator<Integration> {
+    return new PageIterator((params) => this.list({ ...options, ...params }, config), options);
   }
 
   /**
@@ -96,6 +126,7 @@ export class IntegrationsResource {
    * Returns detailed information about a specific integration.
    *
    * @param idOrSlug - Integration UUID or URL slug
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Integration details
    *
    * @example
@@ -110,8 +141,8 @@ export class IntegrationsResource {
    * console.log(`Installs: ${integration.install_count}`);
    * ```
    */
-  async get(idOrSlug: string): Promise<ApiResponse<Integration>> {
-    return this.client.get<ApiResponse<Integration>>(`/v1/integrations/${idOrSlug}`);
+  get(idOrSlug: string, config?: RequestConfig): WorkbenchPromise<ApiResponse<Integration>> {
+    return this.client.get<ApiResponse<Integration>>(`/v1/integrations/${idOrSlug}`, undefined, config);
   }
 
   /**
@@ -121,6 +152,7 @@ export class IntegrationsResource {
    *
    * @param integrationId - Integration UUID or slug
    * @param options - List options (pagination, filtering)
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Paginated list of reviews
    *
    * @example
@@ -135,17 +167,50 @@ export class IntegrationsResource {
    * }
    * ```
    */
-  async getReviews(
+  getReviews(
     integrationId: string,
-    options: ListIntegrationReviewsOptions = {}
-  ): Promise<ListResponse<IntegrationReview>> {
+    options: ListIntegrationReviewsOptions = {},
+    config?: RequestConfig
+  ): WorkbenchPromise<ListResponse<IntegrationReview>> {
     return this.client.get<ListResponse<IntegrationReview>>(
       `/v1/integrations/${integrationId}/reviews`,
       {
         page: options.page,
         per_page: options.per_page,
+        limit: options.limit,
+        offset: options.offset,
         min_rating: options.min_rating,
-      }
+      },
+      config
+    );
+  }
+
+  /**
+   * Iterate over all reviews for an integration
+   *
+   * Automatically fetches subsequent pages as the iterator is consumed.
+   * Accepts the same filters as `getReviews()`.
+   *
+   * @param integrationId - Integration UUID or slug
+   * @param options - List options (filtering, starting page)
+   * @param config - Per-request options applied to every page request
+   * @returns Async iterator over every matching review
+   *
+   * @example
+   * ```typescript
+   * const reviews = await workbench.integrations
+   *   .getAllReviews('quickbooks', { min_rating: 4 })
+   *   .toArray({ max: 100 });
+   * ```
+   */
+  getAllReviews(
+    integrationId: string,
+    options: ListIntegrationReviewsOptions = {},
+    config?: RequestConfig
+  ): PageIterator<IntegrationReview> {
+    return new PageIterator(
+      (params) => this.getReviews(integrationId, { ...options, ...params }, config),
+      options
     );
   }
 
@@ -159,6 +224,7 @@ export class IntegrationsResource {
    * Returns all integrations that have been installed on the authenticated
    * business account.
    *
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns List of installed integrations
    *
    * @example
@@ -171,14 +237,15 @@ export class IntegrationsResource {
    * }
    * ```
    */
-  async listInstalled(): Promise<ListResponse<InstalledIntegration>> {
-    return this.client.get<ListResponse<InstalledIntegration>>('/v1/integrations/installed');
+  listInstalled(config?: RequestConfig): WorkbenchPromise<ListResponse<InstalledIntegration>> {
+    return this.client.get<ListResponse<InstalledIntegration>>('/v1/integrations/installed', undefined, config);
   }
 
   /**
    * Get an installed integration by ID
    *
    * @param installationId - Installation UUID
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Installed integration details
    *
    * @example
@@ -187,9 +254,14 @@ export class IntegrationsResource {
    * console.log(`Installed on: ${install.installed_at}`);
    * ```
    */
-  async getInstalled(installationId: string): Promise<ApiResponse<InstalledIntegration>> {
+  getInstalled(
+    installationId: string,
+    config?: RequestConfig
+  ): WorkbenchPromise<ApiResponse<InstalledIntegration>> {
     return this.client.get<ApiResponse<InstalledIntegration>>(
-      `/v1/integrations/installed/${installationId}`
+      `/v1/integrations/installed/${installationId}`,
+      undefined,
+      config
     );
   }
 
@@ -200,6 +272,7 @@ export class IntegrationsResource {
    * authorization code obtained from the user consent flow.
    *
    * @param options - Installation options including authorization code
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Installed integration details
    *
    * @example
@@ -215,10 +288,14 @@ export class IntegrationsResource {
    * console.log(`Installed! Token prefix: ${install.access_token_prefix}`);
    * ```
    */
-  async install(options: InstallIntegrationOptions): Promise<ApiResponse<InstalledIntegration>> {
+  install(
+    options: InstallIntegrationOptions,
+    config?: RequestConfig
+  ): WorkbenchPromise<ApiResponse<InstalledIntegration>> {
     return this.client.post<ApiResponse<InstalledIntegration>>(
       '/v1/integrations/install',
-      options
+      options,
+      config
     );
   }
 
@@ -229,6 +306,7 @@ export class IntegrationsResource {
    * cannot be undone.
    *
    * @param installationId - Installation UUID
+   * @param config - Per-request options (signal, timeout, retries, headers)
    *
    * @example
    * ```typescript
@@ -236,8 +314,10 @@ export class IntegrationsResource {
    * console.log('Integration uninstalled');
    * ```
    */
-  async uninstall(installationId: string): Promise<void> {
-    await this.client.delete<void>(`/v1/integrations/installed/${installationId}`);
+  uninstall(installationId: string, config?: RequestConfig): WorkbenchPromise<void> {
+    return this.client
+      .delete<void>(`/v1/integrations/installed/${installationId}`, config)
+      .map(() => undefined);
   }
 
   /**
@@ -247,6 +327,7 @@ export class IntegrationsResource {
    * be re-enabled later.
    *
    * @param installationId - Installation UUID
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Updated installation
    *
    * @example
@@ -255,9 +336,11 @@ export class IntegrationsResource {
    * console.log(`Active: ${install.is_active}`); // false
    * ```
    */
-  async disable(installationId: string): Promise<ApiResponse<InstalledIntegration>> {
+  disable(installationId: string, config?: RequestConfig): WorkbenchPromise<ApiResponse<InstalledIntegration>> {
     return this.client.post<ApiResponse<InstalledIntegration>>(
-      `/v1/integrations/installed/${installationId}/disable`
+      `/v1/integrations/installed/${installationId}/disable`,
+      undefined,
+      config
     );
   }
 
@@ -265,6 +348,7 @@ export class IntegrationsResource {
    * Re-enable a disabled integration
    *
    * @param installationId - Installation UUID
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Updated installation
    *
    * @example
@@ -273,9 +357,11 @@ export class IntegrationsResource {
    * console.log(`Active: ${install.is_active}`); // true
    * ```
    */
-  async enable(installationId: string): Promise<ApiResponse<InstalledIntegration>> {
+  enable(installationId: string, config?: RequestConfig): WorkbenchPromise<ApiResponse<InstalledIntegration>> {
     return this.client.post<ApiResponse<InstalledIntegration>>(
-      `/v1/integrations/installed/${installationId}/enable`
+      `/v1/integrations/installed/${installationId}/enable`,
+      undefined,
+      config
     );
   }
 
@@ -290,6 +376,7 @@ export class IntegrationsResource {
    *
    * @param integrationId - Integration UUID
    * @param review - Review data
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Created review
    *
    * @example
@@ -301,13 +388,15 @@ export class IntegrationsResource {
    * });
    * ```
    */
-  async submitReview(
+  submitReview(
     integrationId: string,
-    review: { rating: number; title?: string; content?: string }
-  ): Promise<ApiResponse<IntegrationReview>> {
+    review: { rating: number; title?: string; content?: string },
+    config?: RequestConfig
+  ): WorkbenchPromise<ApiResponse<IntegrationReview>> {
     return this.client.post<ApiResponse<IntegrationReview>>(
       `/v1/integrations/${integrationId}/reviews`,
-      review
+      review,
+      config
     );
   }
 }
@@ -0,0 +1,183 @@
+/**
+ * @file resources/invoice-payments.ts
+ * @description Invoice payments sub-resource for the Workbench SDK
+ *
+ * Provides methods for recording, refunding and removing payments against
+ * an invoice. Available as `workbench.invoices.payments`.
+ */
+
+import type { WorkbenchClient } from '../client.js';
+import { PageIterator } from '../utils/pagination.js';
+import type { WorkbenchPromise } from '../utils/workbench-promise.js';
+import type {
+  Payment,
+  PaymentResult,
+  CreatePaymentOptions,
+  RefundPaymentOptions,
+  ListOptions,
+  ApiResponse,
+  ListResponse,
+  RequestConfig,
+} from '../types/index.js';
+
+/**
+ * Invoice payments resource
+ *
+ * Every change returns the invoice with `amount_paid` and `status`
+ * recalculated: 'partial' while a balance remains, 'paid' once the total is
+ * covered. Paying an invoice in full triggers the `invoice.paid` webhook.
+ *
+ * @example
+ * ```typescript
+ * const { data } = await workbench.invoices.payments.create('invoice-uuid', {
+ *   amount: 250,
+ *   method: 'check',
+ *   reference: 'Check #1042'
+ * });
+ *
+ * console.log(data.invoice.status); // 'partial' or 'paid'
+ * ```
+ */
+export class InvoicePaymentsResource {
+  private readonly client: WorkbenchClient;
+
+  constructor(client: WorkbenchClient) {
+    this.client = client;
+  }
+
+  /**
+   * List payments recorded against an invoice
+   *
+   * @param invoiceId - Invoice UUID
+   * @param options - List options (pagination, sorting)
+   * @param config - Per-request options (signal, timeout, retries, headers)
+   * @returns Paginated list of payments
+   *
+   * @example
+   * ```typescript
+   * const { data: payments } = await workbench.invoices.payments.list('invoice-uuid');
+   * ```
+   */
+  list(
+    invoiceId: string,
+    options: ListOptions = {},
+    config?: RequestConfig
+  ): WorkbenchPromise<ListResponse<Payment>> {
+    return this.client.get<ListResponse<Payment>>(`/v1/invoices/${invoiceId}/payments`, {
+      page: options.page,
+      per_page: options.per_page,
+      limit: options.limit,
+      offset: options.offset,
+      sort: options.sort,
+      order: options.order,
+    }, config);
+  }
+
+  /**
+   * Iterate over all payments recorded against an invoice
+   *
+   * @param invoiceId - Invoice UUID
+   * @param options - List options (sorting, starting page)
+   * @param config - Per-request options applied to every page request
+   * @returns Async iterator over every payment
+   *
+   * @example
+   * ```typescript
+   * for await (const payment of workbench.invoices.payments.listAll('invoice-uuid')) {
+   *   console.log(payment.amount, payment.method);
+   * }
+   * ```
+   */
+  listAll(invoiceId: string, options: ListOptions = {}, config?: RequestConfig): PageIterator<Payment> {
+    return new PageIterator((params) => this.list(invoiceId, { ...options, ...params }, config), options);
+  }
+
+  /**
+   * Record a payment against an invoice
+   *
+   * @param invoiceId - Invoice UUID
+   * @param data - Amount, method and optional reference
+   * @param config - Per-request options (signal, timeout, retries, headers)
+   * @returns The recorded payment and the recalculated invoice
+   *
+   * @example
+   * ```typescript
+   * const { data } = await workbench.invoices.payments.create('invoice-uuid', {
+   *   amount: 500,
+   *   method: 'bank_transfer',
+   *   reference: 'TXN-88213',
+   *   received_at: new Date('2024-01-20T14:00:00Z')
+   * });
+   *
+   * if (data.invoice.status === 'paid') {
+   *   console.log('Invoice settled');
+   * }
+   * ```
+   */
+  create(
+    invoiceId: string,
+    data: CreatePaymentOptions,
+    config?: RequestConfig
+  ): WorkbenchPromise<ApiResponse<PaymentResult>> {
+    return this.client.post<ApiResponse<PaymentResult>>(`/v1/invoices/${invoiceId}/payments`, data, config);
+  }
+
+  /**
+   * Refund a payment, in full or in part
+   *
+   * The refunded amount is taken off the invoice's `amount_paid`, so a paid
+   * invoice moves back to 'partial' (or 'sent' when nothing remains paid).
+   *
+   * @param invoiceId - Invoice UUID
+   * @param paymentId - Payment UUID
+   * @param data - Amount to refund (defaults to the rest of the payment) and reason
+   * @param config - Per-request options (signal, timeout, retries, headers)
+   * @returns The refunded payment and the recalculated invoice
+   *
+   * @example
+   * ```typescript
+   * await workbench.invoices.payments.refund('invoice-uuid', 'payment-uuid', {
+   *   amount: 50,
+   *   reason: 'Discount applied after payment'
+   * });
+   * ```
+   */
+  refund(
+    invoiceId: string,
+    paymentId: string,
+    data: RefundPaymentOptions = {},
+    config?: RequestConfig
+  ): WorkbenchPromise<ApiResponse<PaymentResult>> {
+    return this.client.post<ApiResponse<PaymentResult>>(
+      `/v1/invoices/${invoiceId}/payments/${paymentId}/refund`,
+      data,
+      config
+    );
+  }
+
+  /**
+   * Delete a payment recorded by mistake
+   *
+   * Unlike a refund, the payment is removed from the invoice's history.
+   *
+   * @param invoiceId - Invoice UUID
+   * @param paymentId - Payment UUID
+   * @param config - Per-request options (signal, timeout, retries, headers)
+   * @returns The deleted payment and the recalculated invoice
+   *
+   * @example
+   * ```typescript
+   * await workbench.invoices.payments.delete('invoice-uuid', 'payment-uuid');
+   * ```
+   */
+  delete(
+    invoiceId: string,
+    paymentId: string,
+    config?: RequestConfig
+  ): WorkbenchPromise<ApiResponse<PaymentResult>> {
+    return this.client.delete<ApiResponse<PaymentResult>>(
+      `/v1/invoices/${invoiceId}/payments/${paymentId}`,
+      config
+    );
+  }
+}
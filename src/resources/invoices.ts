@@ -6,15 +6,54 @@
  */
 
 import type { WorkbenchClient } from '../client.js';
+import { InvoicePaymentsResource } from './invoice-payments.js';
+import { PageIterator } from '../utils/pagination.js';
+import { allowedFrom, assertStatus } from '../utils/status-transitions.js';
+import type { StatusTransitions } from '../utils/status-transitions.js';
+import { WorkbenchPromise } from '../utils/workbench-promise.js';
+import { bulkItemConfig } from '../utils/batch.js';
+import type { BatchResult, BatchUpdate, BulkWriteOptions } from '../utils/batch.js';
 import type {
   Invoice,
+  InvoiceStatus,
   CreateInvoiceOptions,
   UpdateInvoiceOptions,
   ListInvoicesOptions,
+  MarkInvoicePaidOptions,
+  PaymentResult,
   ApiResponse,
   ListResponse,
+  RequestConfig,
 } from '../types/index.js';
 
+/**
+ * Statuses an invoice may move to from each status
+ */
+const INVOICE_TRANSITIONS: StatusTransitions<InvoiceStatus> = {
+  draft: ['sent', 'partial', 'paid', 'cancelled', 'voided'],
+  sent: ['viewed', 'partial', 'paid', 'overdue', 'cancelled', 'voided'],
+  viewed: ['partial', 'paid', 'overdue', 'cancelled', 'voided'],
+  partial: ['paid', 'overdue'],
+  overdue: ['partial', 'paid', 'voided'],
+  paid: [],
+  cancelled: [],
+  voided: [],
+};
+
+/**
+ * Statuses in which the client still owes money and can be reminded
+ */
+const REMINDABLE_STATUSES: readonly InvoiceStatus[] = ['sent', 'viewed', 'partial', 'overdue'];
+
+/**
+ * Throw unless the invoice may move to the target status
+ *
+ * @throws InvalidStateError if the transition is not allowed
+ */
+function assertTransition(invoice: Invoice, target: InvoiceStatus, action: string): void {
+  assertStatus(`Invoice ${invoice.invoice_number}`, invoice.status, allowedFrom(INVOICE_TRANSITIONS, target), action);
+}
+
 /**
  * Invoices resource
  *
@@ -40,8 +79,12 @@ import type {
 export class InvoicesResource {
   private readonly client: WorkbenchClient;
 
+  /** Payments recorded against invoices */
+  readonly payments: InvoicePaymentsResource;
+
   constructor(client: WorkbenchClient) {
     this.client = client;
+    this.payments = new InvoicePaymentsResource(client);
   }
 
   /**
@@ -50,6 +93,7 @@ export class InvoicesResource {
    * Returns a paginated list of invoices for the authenticated business.
    *
    * @param options - List options (pagination, filtering, sorting)
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Paginated list of invoices
    *
    * @example
@@ -61,22 +105,46 @@ export class InvoicesResource {
    * });
    * ```
    */
-  async list(options: ListInvoicesOptions = {}): Promise<ListResponse<Invoice>> {
+  list(options: ListInvoicesOptions = {}, config?: RequestConfig): WorkbenchPromise<ListResponse<Invoice>> {
     return this.client.get<ListResponse<Invoice>>('/v1/invoices', {
       page: options.page,
       per_page: options.per_page,
+      limit: options.limit,
+      offset: options.offset,
       search: options.search,
       sort: options.sort,
       order: options.order,
       status: options.status,
       client_id: options.client_id,
-    });
+    }, config);
+  }
+
+  /**
+   * Iterate over all invoices
+   *
+   * Automatically fetches subsequent pages as the iterator is consumed.
+   * Accepts the same filters as `list()`.
+   *
+   * @param options - List options (filtering, sorting, starting page)
+   * @param config - Per-request options applied to every page request
+   * @returns Async iterator over every matching invoice
+   *
+   * @example
+   * ```typescript
+   * for await (const invoice of workbench.invoices.listAll({ status: 'sent' })) {
+   *   console.log(invoice.invoice_number);
+   * }
+   * ```
+   */
+  listAll(options: ListInvoicesOptions = {}, config?: RequestConfig): PageIterator<Invoice> {
+    return new PageIterator((params) => this.list({ ...options, ...params }, config), options);
   }
 
   /**
    * Get an invoice by ID
    *
    * @param id - Invoice UUID
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Invoice details with line items
    *
    * @example
@@ -85,8 +153,8 @@ export class InvoicesResource {
    * console.log(`Invoice ${invoice.invoice_number}: $${invoice.total}`);
    * ```
    */
-  async get(id: string): Promise<ApiResponse<Invoice>> {
-    return this.client.get<ApiResponse<Invoice>>(`/v1/invoices/${id}`);
+  get(id: string, config?: RequestConfig): WorkbenchPromise<ApiResponse<Invoice>> {
+    return this.client.get<ApiResponse<Invoice>>(`/v1/invoices/${id}`, undefined, config);
   }
 
   /**
@@ -96,6 +164,7 @@ export class InvoicesResource {
    * automatically generated by Workbench.
    *
    * @param data - Invoice data including line items
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Created invoice
    *
    * @example
@@ -111,8 +180,8 @@ export class InvoicesResource {
    * });
    * ```
    */
-  async create(data: CreateInvoiceOptions): Promise<ApiResponse<Invoice>> {
-    return this.client.post<ApiResponse<Invoice>>('/v1/invoices', data);
+  create(data: CreateInvoiceOptions, config?: RequestConfig): WorkbenchPromise<ApiResponse<Invoice>> {
+    return this.client.post<ApiResponse<Invoice>>('/v1/invoices', data, config);
   }
 
   /**
@@ -122,6 +191,7 @@ export class InvoicesResource {
    *
    * @param id - Invoice UUID
    * @param data - Fields to update
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Updated invoice
    *
    * @example
@@ -132,8 +202,75 @@ export class InvoicesResource {
    * });
    * ```
    */
-  async update(id: string, data: UpdateInvoiceOptions): Promise<ApiResponse<Invoice>> {
-    return this.client.put<ApiResponse<Invoice>>(`/v1/invoices/${id}`, data);
+  update(
+    id: string,
+    data: UpdateInvoiceOptions,
+    config?: RequestConfig
+  ): WorkbenchPromise<ApiResponse<Invoice>> {
+    return this.client.put<ApiResponse<Invoice>>(`/v1/invoices/${id}`, data, config);
+  }
+
+  /**
+   * Create many invoices
+   *
+   * Sends one create request per item with bounded concurrency and reports
+   * each outcome instead of failing on the first error.
+   *
+   * @param items - Invoice data for each invoice
+   * @param options - Concurrency (default: 5), stopOnError, abort signal and a key for each item
+   * @param config - Per-request options applied to every create request; a shared `idempotencyKey` is dropped
+   * @returns Batch report of created invoices, failures and retryable leftovers
+   *
+   * @example
+   * ```typescript
+   * const report = await workbench.invoices.createMany(
+   *   orders.map((order) => ({ client_id: order.clientId, items: order.items }))
+   * );
+   *
+   * // Resubmit rate-limited or failed-by-server items later
+   * await workbench.invoices.createMany(report.retryable);
+   * ```
+   */
+  createMany(
+    items: readonly CreateInvoiceOptions[],
+    options: BulkWriteOptions<CreateInvoiceOptions> = {},
+    config?: RequestConfig
+  ): Promise<BatchResult<CreateInvoiceOptions, ApiResponse<Invoice>>> {
+    const { idempotencyKey, ...batchOptions } = options;
+    return this.client.batch(
+      items,
+      (data) => this.create(data, bulkItemConfig(data, idempotencyKey, config)),
+      { signal: config?.signal, ...batchOptions }
+    );
+  }
+
+  /**
+   * Update many invoices
+   *
+   * @param updates - Invoice ID and changes for each invoice
+   * @param options - Concurrency (default: 5), stopOnError, abort signal and a key for each item
+   * @param config - Per-request options applied to every update request; `idempotencyKey` is joined to each ID
+   * @returns Batch report of updated invoices, failures and retryable leftovers
+   *
+   * @example
+   * ```typescript
+   * const report = await workbench.invoices.updateMany(
+   *   overdueIds.map((id) => ({ id, data: { status: 'overdue' } })),
+   *   { concurrency: 10 }
+   * );
+   * ```
+   */
+  updateMany(
+    updates: readonly BatchUpdate<UpdateInvoiceOptions>[],
+    options: BulkWriteOptions<BatchUpdate<UpdateInvoiceOptions>> = {},
+    config?: RequestConfig
+  ): Promise<BatchResult<BatchUpdate<UpdateInvoiceOptions>, ApiResponse<Invoice>>> {
+    const { idempotencyKey, ...batchOptions } = options;
+    return this.client.batch(
+      updates,
+      (update) => this.update(update.id, update.data, bulkItemConfig(update, idempotencyKey, config, update.id)),
+      { signal: config?.signal, ...batchOptions }
+    );
   }
 
   /**
@@ -143,14 +280,15 @@ export class InvoicesResource {
    * This action cannot be undone.
    *
    * @param id - Invoice UUID
+   * @param config - Per-request options (signal, timeout, retries, headers)
    *
    * @example
    * ```typescript
    * await workbench.invoices.delete('invoice-uuid');
    * ```
    */
-  async delete(id: string): Promise<void> {
-    await this.client.delete<void>(`/v1/invoices/${id}`);
+  delete(id: string, config?: RequestConfig): WorkbenchPromise<void> {
+    return this.client.delete<void>(`/v1/invoices/${id}`, config).map(() => undefined);
   }
 
   /**
@@ -160,6 +298,7 @@ export class InvoicesResource {
    * status will be updated to 'sent' if currently 'draft'.
    *
    * @param id - Invoice UUID
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Success response
    *
    * @example
@@ -168,7 +307,225 @@ export class InvoicesResource {
    * console.log('Invoice sent successfully');
    * ```
    */
-  async send(id: string): Promise<ApiResponse<{ message: string; invoice_id: string }>> {
-    return this.client.post<ApiResponse<{ message: string; invoice_id: string }>>(`/v1/invoices/${id}/send`);
+  send(
+    id: string,
+    config?: RequestConfig
+  ): WorkbenchPromise<ApiResponse<{ message: string; invoice_id: string }>> {
+    return this.client.post<ApiResponse<{ message: string; invoice_id: string }>>(
+      `/v1/invoices/${id}/send`,
+      undefined,
+      config
+    );
+  }
+
+  /**
+   * Download the invoice as a PDF
+   *
+   * @param id - Invoice UUID
+   * @param config - Per-request options (signal, timeout, retries, headers)
+   * @returns PDF file contents
+   *
+   * @example
+   * ```typescript
+   * const pdf = await workbench.invoices.downloadPdf('invoice-uuid');
+   *
+   * await mailer.send({
+   *   to: client.email,
+   *   attachments: [{ filename: 'invoice.pdf', content: pdf }]
+   * });
+   * ```
+   */
+  downloadPdf(id: string, config?: RequestConfig): WorkbenchPromise<Buffer> {
+    return this.client.request<Buffer>({
+      ...config,
+      method: 'GET',
+      path: `/v1/invoices/${id}/pdf`,
+      headers: { 'Accept': 'application/pdf', ...config?.headers },
+      responseType: 'buffer',
+    });
+  }
+
+  /**
+   * Stream the invoice PDF without buffering it in memory
+   *
+   * The timeout applies until the response headers arrive; abort the
+   * request's signal to cancel the download while it is being read.
+   *
+   * @param id - Invoice UUID
+   * @param config - Per-request options (signal, timeout, retries, headers)
+   * @returns Web ReadableStream of the PDF bytes
+   *
+   * @example
+   * ```typescript
+   * import { Readable } from 'node:stream';
+   * import { pipeline } from 'node:stream/promises';
+   * import { createWriteStream } from 'node:fs';
+   *
+   * const stream = await workbench.invoices.downloadPdfStream('invoice-uuid');
+   * await pipeline(Readable.fromWeb(stream), createWriteStream('invoice.pdf'));
+   * ```
+   */
+  downloadPdfStream(id: string, config?: RequestConfig): WorkbenchPromise<ReadableStream<Uint8Array>> {
+    return this.client.request<ReadableStream<Uint8Array>>({
+      ...config,
+      method: 'GET',
+      path: `/v1/invoices/${id}/pdf`,
+      headers: { 'Accept': 'application/pdf', ...config?.headers },
+      responseType: 'stream',
+    });
+  }
+
+  /**
+   * Void an invoice
+   *
+   * Allowed from 'draft', 'sent', 'viewed' or 'overdue'. A voided invoice
+   * stays on record but can no longer be paid or changed; refund any
+   * payments before voiding a partially paid invoice.
+   *
+   * @param id - Invoice UUID
+   * @param reason - Why the invoice was voided
+   * @param config - Per-request options applied to every request
+   * @returns Voided invoice
+   * @throws InvalidStateError if the invoice cannot be voided from its current status
+   *
+   * @example
+   * ```typescript
+   * await workbench.invoices.void('invoice-uuid', 'Duplicate of INV-0042');
+   * ```
+   */
+  void(id: string, reason: string, config?: RequestConfig): WorkbenchPromise<ApiResponse<Invoice>> {
+    return this.withCurrent(id, config, (invoice) => {
+      assertTransition(invoice, 'voided', 'voided');
+      return this.update(id, { status: 'voided', voided_at: new Date(), void_reason: reason }, config);
+    });
+  }
+
+  /**
+   * Mark an invoice paid by recording a payment for the outstanding balance
+   *
+   * Allowed from 'draft', 'sent', 'viewed', 'partial' or 'overdue'. Passing
+   * an amount below the balance leaves the invoice 'partial'.
+   *
+   * @param id - Invoice UUID
+   * @param options - When and how the invoice was paid, and the amount received
+   * @param config - Per-request options applied to every request
+   * @returns The recorded payment and the recalculated invoice
+   * @throws InvalidStateError if the invoice cannot be paid from its current status
+   *
+   * @example
+   * ```typescript
+   * const { invoice } = await workbench.invoices.markPaid('invoice-uuid', {
+   *   paidAt: new Date('2024-01-20T14:00:00Z'),
+   *   method: 'bank_transfer'
+   * });
+   * console.log(invoice.status); // 'paid'
+   * ```
+   */
+  markPaid(
+    id: string,
+    options: MarkInvoicePaidOptions = {},
+    config?: RequestConfig
+  ): WorkbenchPromise<PaymentResult> {
+    return this.withCurrent(id, config, (invoice) => {
+      assertTransition(invoice, 'paid', 'marked paid');
+
+      return this.payments.create(id, {
+        // Round to cents so float error never leaves a fraction of a cent unpaid
+        amount: options.amount ?? Math.round((invoice.total - invoice.amount_paid) * 100) / 100,
+        method: options.method ?? 'other',
+        ...(options.reference !== undefined && { reference: options.reference }),
+        ...(options.paidAt !== undefined && { received_at: options.paidAt }),
+      }, config).map(({ data }) => data);
+    });
+  }
+
+  /**
+   * Email the client a reminder about an unpaid invoice
+   *
+   * Allowed from 'sent', 'viewed', 'partial' or 'overdue'.
+   *
+   * @param id - Invoice UUID
+   * @param config - Per-request options applied to every request
+   * @returns Success response
+   * @throws InvalidStateError if nothing is owed on the invoice
+   *
+   * @example
+   * ```typescript
+   * for await (const invoice of workbench.invoices.listAll({ status: 'overdue' })) {
+   *   await workbench.invoices.sendReminder(invoice.id);
+   * }
+   * ```
+   */
+  sendReminder(
+    id: string,
+    config?: RequestConfig
+  ): WorkbenchPromise<ApiResponse<{ message: string; invoice_id: string }>> {
+    return this.withCurrent(id, config, (invoice) => {
+      assertStatus(`Invoice ${invoice.invoice_number}`, invoice.status, REMINDABLE_STATUSES, 'reminded');
+
+      return this.client.post<ApiResponse<{ message: string; invoice_id: string }>>(
+        `/v1/invoices/${id}/remind`,
+        undefined,
+        config
+      );
+    });
+  }
+
+  /**
+   * Create a draft copy of an invoice
+   *
+   * Copies the client, job, line items, tax rate, discount, notes and terms
+   * of an invoice in any status. Dates, payments and the quote link are not
+   * copied.
+   *
+   * @param id - Invoice UUID
+   * @param overrides - Fields to set instead of the original's values (e.g. due_date)
+   * @param config - Per-request options applied to every request
+   * @returns The new draft invoice
+   *
+   * @example
+   * ```typescript
+   * // Re-issue a voided invoice with a corrected line item
+   * const { data: copy } = await workbench.invoices.duplicate('invoice-uuid', {
+   *   due_date: '2024-03-01'
+   * });
+   * ```
+   */
+  duplicate(
+    id: string,
+    overrides: Partial<CreateInvoiceOptions> = {},
+    config?: RequestConfig
+  ): WorkbenchPromise<ApiResponse<Invoice>> {
+    return this.withCurrent(id, config, (invoice) => this.create({
+      client_id: invoice.client_id,
+      job_id: invoice.job_id,
+      status: 'draft',
+      items: invoice.items.map(({ description, quantity, unit_price, sort_order }) => ({
+        description,
+        quantity,
+        unit_price,
+        sort_order,
+      })),
+      tax_rate: invoice.tax_rate,
+      discount_amount: invoice.discount_amount,
+      notes: invoice.notes,
+      terms: invoice.terms,
+      ...overrides,
+    }, config));
+  }
+
+  /**
+   * Read the current invoice bypassing the response cache, then make the follow-up call
+   *
+   * The returned promise carries the response metadata of the follow-up call.
+   */
+  private withCurrent<T>(
+    id: string,
+    config: RequestConfig | undefined,
+    next: (invoice: Invoice) => WorkbenchPromise<T>
+  ): WorkbenchPromise<T> {
+    return new WorkbenchPromise(
+      this.get(id, { ...config, cache: false }).then(({ data }) => next(data).withResponse())
+    );
   }
 }
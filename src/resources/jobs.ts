@@ -6,6 +6,10 @@
  */
 
 import type { WorkbenchClient } from '../client.js';
+import { PageIterator } from '../utils/pagination.js';
+import type { WorkbenchPromise } from '../utils/workbench-promise.js';
+import { bulkItemConfig } from '../utils/batch.js';
+import type { BatchResult, BatchUpdate, BulkWriteOptions } from '../utils/batch.js';
 import type {
   Job,
   CreateJobOptions,
@@ -13,6 +17,7 @@ import type {
   ListJobsOptions,
   ApiResponse,
   ListResponse,
+  RequestConfig,
 } from '../types/index.js';
 
 /**
@@ -48,6 +53,7 @@ export class JobsResource {
    * Returns a paginated list of jobs for the authenticated business.
    *
    * @param options - List options (pagination, filtering, sorting)
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Paginated list of jobs
    *
    * @example
@@ -60,23 +66,47 @@ export class JobsResource {
    * });
    * ```
    */
-  async list(options: ListJobsOptions = {}): Promise<ListResponse<Job>> {
+  list(options: ListJobsOptions = {}, config?: RequestConfig): WorkbenchPromise<ListResponse<Job>> {
     return this.client.get<ListResponse<Job>>('/v1/jobs', {
       page: options.page,
       per_page: options.per_page,
+      limit: options.limit,
+      offset: options.offset,
       search: options.search,
       sort: options.sort,
       order: options.order,
       status: options.status,
       priority: options.priority,
       client_id: options.client_id,
-    });
+    }, config);
+  }
+
+  /**
+   * Iterate over all jobs
+   *
+   * Automatically fetches subsequent pages as the iterator is consumed.
+   * Accepts the same filters as `list()`.
+   *
+   * @param options - List options (filtering, sorting, starting page)
+   * @param config - Per-request options applied to every page request
+   * @returns Async iterator over every matching job
+   *
+   * @example
+   * ```typescript
+   * for await (const job of workbench.jobs.listAll({ status: 'scheduled' })) {
+   *   console.log(job.title);
+   * }
+   * ```
+   */
+  listAll(options: ListJobsOptions = {}, config?: RequestConfig): PageIterator<Job> {
+    return new PageIterator((params) => this.list({ ...options, ...params }, config), options);
   }
 
   /**
    * Get a job by ID
    *
    * @param id - Job UUID
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Job details
    *
    * @example
@@ -85,14 +115,15 @@ export class JobsResource {
    * console.log(`Job: ${job.title} (${job.status})`);
    * ```
    */
-  async get(id: string): Promise<ApiResponse<Job>> {
-    return this.client.get<ApiResponse<Job>>(`/v1/jobs/${id}`);
+  get(id: string, config?: RequestConfig): WorkbenchPromise<ApiResponse<Job>> {
+    return this.client.get<ApiResponse<Job>>(`/v1/jobs/${id}`, undefined, config);
   }
 
   /**
    * Create a new job
    *
    * @param data - Job data
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Created job
    *
    * @example
@@ -108,8 +139,8 @@ export class JobsResource {
    * });
    * ```
    */
-  async create(data: CreateJobOptions): Promise<ApiResponse<Job>> {
-    return this.client.post<ApiResponse<Job>>('/v1/jobs', data);
+  create(data: CreateJobOptions, config?: RequestConfig): WorkbenchPromise<ApiResponse<Job>> {
+    return this.client.post<ApiResponse<Job>>('/v1/jobs', data, config);
   }
 
   /**
@@ -117,6 +148,7 @@ export class JobsResource {
    *
    * @param id - Job UUID
    * @param data - Fields to update
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Updated job
    *
    * @example
@@ -134,8 +166,71 @@ export class JobsResource {
    * });
    * ```
    */
-  async update(id: string, data: UpdateJobOptions): Promise<ApiResponse<Job>> {
-    return this.client.put<ApiResponse<Job>>(`/v1/jobs/${id}`, data);
+  update(id: string, data: UpdateJobOptions, config?: RequestConfig): WorkbenchPromise<ApiResponse<Job>> {
+    return this.client.put<ApiResponse<Job>>(`/v1/jobs/${id}`, data, config);
+  }
+
+  /**
+   * Create many jobs
+   *
+   * Sends one create request per item with bounded concurrency and reports
+   * each outcome instead of failing on the first error.
+   *
+   * @param items - Job data for each job
+   * @param options - Concurrency (default: 5), stopOnError, abort signal and a key for each item
+   * @param config - Per-request options applied to every create request; a shared `idempotencyKey` is dropped
+   * @returns Batch report of created jobs, failures and retryable leftovers
+   *
+   * @example
+   * ```typescript
+   * const report = await workbench.jobs.createMany(
+   *   visits.map((visit) => ({ client_id: visit.clientId, title: visit.title }))
+   * );
+   *
+   * // Resubmit rate-limited or failed-by-server items later
+   * await workbench.jobs.createMany(report.retryable);
+   * ```
+   */
+  createMany(
+    items: readonly CreateJobOptions[],
+    options: BulkWriteOptions<CreateJobOptions> = {},
+    config?: RequestConfig
+  ): Promise<BatchResult<CreateJobOptions, ApiResponse<Job>>> {
+    const { idempotencyKey, ...batchOptions } = options;
+    return this.client.batch(
+      items,
+      (data) => this.create(data, bulkItemConfig(data, idempotencyKey, config)),
+      { signal: config?.signal, ...batchOptions }
+    );
+  }
+
+  /**
+   * Update many jobs
+   *
+   * @param updates - Job ID and changes for each job
+   * @param options - Concurrency (default: 5), stopOnError, abort signal and a key for each item
+   * @param config - Per-request options applied to every update request; `idempotencyKey` is joined to each ID
+   * @returns Batch report of updated jobs, failures and retryable leftovers
+   *
+   * @example
+   * ```typescript
+   * const report = await workbench.jobs.updateMany(
+   *   jobIds.map((id) => ({ id, data: { status: 'completed' } })),
+   *   { concurrency: 10 }
+   * );
+   * ```
+   */
+  updateMany(
+    updates: readonly BatchUpdate<UpdateJobOptions>[],
+    options: BulkWriteOptions<BatchUpdate<UpdateJobOptions>> = {},
+    config?: RequestConfig
+  ): Promise<BatchResult<BatchUpdate<UpdateJobOptions>, ApiResponse<Job>>> {
+    const { idempotencyKey, ...batchOptions } = options;
+    return this.client.batch(
+      updates,
+      (update) => this.update(update.id, update.data, bulkItemConfig(update, idempotencyKey, config, update.id)),
+      { signal: config?.signal, ...batchOptions }
+    );
   }
 
   /**
@@ -144,13 +239,14 @@ export class JobsResource {
    * Permanently deletes a job. This action cannot be undone.
    *
    * @param id - Job UUID
+   * @param config - Per-request options (signal, timeout, retries, headers)
    *
    * @example
    * ```typescript
    * await workbench.jobs.delete('job-uuid');
    * ```
    */
-  async delete(id: string): Promise<void> {
-    await this.client.delete<void>(`/v1/jobs/${id}`);
+  delete(id: string, config?: RequestConfig): WorkbenchPromise<void> {
+    return this.client.delete<void>(`/v1/jobs/${id}`, config).map(() => undefined);
   }
 }
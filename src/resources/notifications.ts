@@ -33,12 +33,14 @@
  */
 
 import type { WorkbenchClient } from '../client.js';
+import type { WorkbenchPromise } from '../utils/workbench-promise.js';
 import type {
   ApiResponse,
   NotificationResult,
   SendToClientOptions,
   SendToTeamOptions,
   SendCustomNotificationOptions,
+  RequestConfig,
 } from '../types/index.js';
 
 /**
@@ -73,6 +75,7 @@ export class NotificationsResource {
    * or custom content. The client must have a valid email address.
    *
    * @param options - Notification options
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Notification result with delivery statistics
    *
    * @example
@@ -99,7 +102,10 @@ export class NotificationsResource {
    *   subjectOverride: 'Your custom quote is ready!'
    * });
    */
-  async sendToClient(options: SendToClientOptions): Promise<ApiResponse<NotificationResult>> {
+  sendToClient(
+    options: SendToClientOptions,
+    config?: RequestConfig
+  ): WorkbenchPromise<ApiResponse<NotificationResult>> {
     const body: NotificationRequestBody = {
       type: 'CLIENT',
       event: options.event,
@@ -111,7 +117,7 @@ export class NotificationsResource {
       entity_id: options.entityId,
     };
 
-    return this.client.post<ApiResponse<NotificationResult>>('/v1/notifications', body);
+    return this.client.post<ApiResponse<NotificationResult>>('/v1/notifications', body, config);
   }
 
   /**
@@ -121,6 +127,7 @@ export class NotificationsResource {
    * by their role in the business.
    *
    * @param options - Notification options
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Notification result with delivery statistics
    *
    * @example
@@ -146,7 +153,10 @@ export class NotificationsResource {
    *   }
    * });
    */
-  async sendToTeam(options: SendToTeamOptions): Promise<ApiResponse<NotificationResult>> {
+  sendToTeam(
+    options: SendToTeamOptions,
+    config?: RequestConfig
+  ): WorkbenchPromise<ApiResponse<NotificationResult>> {
     const body: NotificationRequestBody = {
       type: 'BUSINESS',
       event: options.event,
@@ -158,7 +168,7 @@ export class NotificationsResource {
       entity_id: options.entityId,
     };
 
-    return this.client.post<ApiResponse<NotificationResult>>('/v1/notifications', body);
+    return this.client.post<ApiResponse<NotificationResult>>('/v1/notifications', body, config);
   }
 
   /**
@@ -168,6 +178,7 @@ export class NotificationsResource {
    * Can be sent to either a client or business team members.
    *
    * @param options - Custom notification options
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Notification result with delivery statistics
    *
    * @example
@@ -201,7 +212,10 @@ export class NotificationsResource {
    *   }
    * });
    */
-  async sendCustom(options: SendCustomNotificationOptions): Promise<ApiResponse<NotificationResult>> {
+  sendCustom(
+    options: SendCustomNotificationOptions,
+    config?: RequestConfig
+  ): WorkbenchPromise<ApiResponse<NotificationResult>> {
     const body: NotificationRequestBody = {
       type: options.type,
       event: 'sdk_custom',
@@ -214,6 +228,6 @@ export class NotificationsResource {
       entity_id: options.entityId,
     };
 
-    return this.client.post<ApiResponse<NotificationResult>>('/v1/notifications', body);
+    return this.client.post<ApiResponse<NotificationResult>>('/v1/notifications', body, config);
   }
 }
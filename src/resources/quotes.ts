@@ -5,16 +5,49 @@
  * Provides methods for managing quotes/estimates in Workbench CRM.
  */
 
+import { createHash } from 'crypto';
 import type { WorkbenchClient } from '../client.js';
+import { PageIterator } from '../utils/pagination.js';
+import { allowedFrom, assertStatus } from '../utils/status-transitions.js';
+import type { StatusTransitions } from '../utils/status-transitions.js';
+import { WorkbenchPromise } from '../utils/workbench-promise.js';
 import type {
   Quote,
+  QuoteStatus,
   CreateQuoteOptions,
   UpdateQuoteOptions,
+  ApproveQuoteOptions,
+  RejectQuoteOptions,
   ListQuotesOptions,
+  QuoteConversion,
+  CreateInvoiceOptions,
   ApiResponse,
   ListResponse,
+  RequestConfig,
 } from '../types/index.js';
 
+/**
+ * Statuses a quote may move to from each status
+ */
+const QUOTE_TRANSITIONS: StatusTransitions<QuoteStatus> = {
+  draft: ['sent', 'expired'],
+  sent: ['viewed', 'approved', 'rejected', 'expired'],
+  viewed: ['approved', 'rejected', 'expired'],
+  approved: ['converted'],
+  rejected: [],
+  expired: [],
+  converted: [],
+};
+
+/**
+ * Throw unless the quote may move to the target status
+ *
+ * @throws InvalidStateError if the transition is not allowed
+ */
+function assertTransition(quote: Quote, target: QuoteStatus, action: string): void {
+  assertStatus(`Quote ${quote.quote_number}`, quote.status, allowedFrom(QUOTE_TRANSITIONS, target), action);
+}
+
 /**
  * Quotes resource
  *
@@ -49,6 +82,7 @@ export class QuotesResource {
    * Returns a paginated list of quotes for the authenticated business.
    *
    * @param options - List options (pagination, filtering, sorting)
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Paginated list of quotes
    *
    * @example
@@ -60,22 +94,46 @@ export class QuotesResource {
    * });
    * ```
    */
-  async list(options: ListQuotesOptions = {}): Promise<ListResponse<Quote>> {
+  list(options: ListQuotesOptions = {}, config?: RequestConfig): WorkbenchPromise<ListResponse<Quote>> {
     return this.client.get<ListResponse<Quote>>('/v1/quotes', {
       page: options.page,
       per_page: options.per_page,
+      limit: options.limit,
+      offset: options.offset,
       search: options.search,
       sort: options.sort,
       order: options.order,
       status: options.status,
       client_id: options.client_id,
-    });
+    }, config);
+  }
+
+  /**
+   * Iterate over all quotes
+   *
+   * Automatically fetches subsequent pages as the iterator is consumed.
+   * Accepts the same filters as `list()`.
+   *
+   * @param options - List options (filtering, sorting, starting page)
+   * @param config - Per-request options applied to every page request
+   * @returns Async iterator over every matching quote
+   *
+   * @example
+   * ```typescript
+   * for await (const quote of workbench.quotes.listAll({ status: 'approved' })) {
+   *   console.log(quote.quote_number);
+   * }
+   * ```
+   */
+  listAll(options: ListQuotesOptions = {}, config?: RequestConfig): PageIterator<Quote> {
+    return new PageIterator((params) => this.list({ ...options, ...params }, config), options);
   }
 
   /**
    * Get a quote by ID
    *
    * @param id - Quote UUID
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Quote details with line items
    *
    * @example
@@ -84,8 +142,8 @@ export class QuotesResource {
    * console.log(`Quote ${quote.quote_number}: $${quote.total}`);
    * ```
    */
-  async get(id: string): Promise<ApiResponse<Quote>> {
-    return this.client.get<ApiResponse<Quote>>(`/v1/quotes/${id}`);
+  get(id: string, config?: RequestConfig): WorkbenchPromise<ApiResponse<Quote>> {
+    return this.client.get<ApiResponse<Quote>>(`/v1/quotes/${id}`, undefined, config);
   }
 
   /**
@@ -95,6 +153,7 @@ export class QuotesResource {
    * automatically generated by Workbench.
    *
    * @param data - Quote data including line items
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Created quote
    *
    * @example
@@ -110,8 +169,8 @@ export class QuotesResource {
    * });
    * ```
    */
-  async create(data: CreateQuoteOptions): Promise<ApiResponse<Quote>> {
-    return this.client.post<ApiResponse<Quote>>('/v1/quotes', data);
+  create(data: CreateQuoteOptions, config?: RequestConfig): WorkbenchPromise<ApiResponse<Quote>> {
+    return this.client.post<ApiResponse<Quote>>('/v1/quotes', data, config);
   }
 
   /**
@@ -121,6 +180,7 @@ export class QuotesResource {
    *
    * @param id - Quote UUID
    * @param data - Fields to update
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Updated quote
    *
    * @example
@@ -131,8 +191,8 @@ export class QuotesResource {
    * });
    * ```
    */
-  async update(id: string, data: UpdateQuoteOptions): Promise<ApiResponse<Quote>> {
-    return this.client.put<ApiResponse<Quote>>(`/v1/quotes/${id}`, data);
+  update(id: string, data: UpdateQuoteOptions, config?: RequestConfig): WorkbenchPromise<ApiResponse<Quote>> {
+    return this.client.put<ApiResponse<Quote>>(`/v1/quotes/${id}`, data, config);
   }
 
   /**
@@ -142,14 +202,15 @@ export class QuotesResource {
    * This action cannot be undone.
    *
    * @param id - Quote UUID
+   * @param config - Per-request options (signal, timeout, retries, headers)
    *
    * @example
    * ```typescript
    * await workbench.quotes.delete('quote-uuid');
    * ```
    */
-  async delete(id: string): Promise<void> {
-    await this.client.delete<void>(`/v1/quotes/${id}`);
+  delete(id: string, config?: RequestConfig): WorkbenchPromise<void> {
+    return this.client.delete<void>(`/v1/quotes/${id}`, config).map(() => undefined);
   }
 
   /**
@@ -159,6 +220,7 @@ export class QuotesResource {
    * status will be updated to 'sent' if currently 'draft'.
    *
    * @param id - Quote UUID
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Success response
    *
    * @example
@@ -167,7 +229,259 @@ export class QuotesResource {
    * console.log('Quote sent successfully');
    * ```
    */
-  async send(id: string): Promise<ApiResponse<{ message: string; quote_id: string }>> {
-    return this.client.post<ApiResponse<{ message: string; quote_id: string }>>(`/v1/quotes/${id}/send`);
+  send(
+    id: string,
+    config?: RequestConfig
+  ): WorkbenchPromise<ApiResponse<{ message: string; quote_id: string }>> {
+    return this.client.post<ApiResponse<{ message: string; quote_id: string }>>(
+      `/v1/quotes/${id}/send`,
+      undefined,
+      config
+    );
+  }
+
+  /**
+   * Download the quote as a PDF
+   *
+   * @param id - Quote UUID
+   * @param config - Per-request options (signal, timeout, retries, headers)
+   * @returns PDF file contents
+   *
+   * @example
+   * ```typescript
+   * const pdf = await workbench.quotes.downloadPdf('quote-uuid');
+   *
+   * await mailer.send({
+   *   to: client.email,
+   *   attachments: [{ filename: 'quote.pdf', content: pdf }]
+   * });
+   * ```
+   */
+  downloadPdf(id: string, config?: RequestConfig): WorkbenchPromise<Buffer> {
+    return this.client.request<Buffer>({
+      ...config,
+      method: 'GET',
+      path: `/v1/quotes/${id}/pdf`,
+      headers: { 'Accept': 'application/pdf', ...config?.headers },
+      responseType: 'buffer',
+    });
+  }
+
+  /**
+   * Stream the quote PDF without buffering it in memory
+   *
+   * The timeout applies until the response headers arrive; abort the
+   * request's signal to cancel the download while it is being read.
+   *
+   * @param id - Quote UUID
+   * @param config - Per-request options (signal, timeout, retries, headers)
+   * @returns Web ReadableStream of the PDF bytes
+   *
+   * @example
+   * ```typescript
+   * import { Readable } from 'node:stream';
+   * import { pipeline } from 'node:stream/promises';
+   * import { createWriteStream } from 'node:fs';
+   *
+   * const stream = await workbench.quotes.downloadPdfStream('quote-uuid');
+   * await pipeline(Readable.fromWeb(stream), createWriteStream('quote.pdf'));
+   * ```
+   */
+  downloadPdfStream(id: string, config?: RequestConfig): WorkbenchPromise<ReadableStream<Uint8Array>> {
+    return this.client.request<ReadableStream<Uint8Array>>({
+      ...config,
+      method: 'GET',
+      path: `/v1/quotes/${id}/pdf`,
+      headers: { 'Accept': 'application/pdf', ...config?.headers },
+      responseType: 'stream',
+    });
+  }
+
+  /**
+   * Convert an approved quote into an invoice
+   *
+   * Creates an invoice with the quote's client, job, line items, tax rate,
+   * discount, notes and terms, linked to the quote through `quote_id`, then
+   * marks the quote as converted.
+   *
+   * Each step gets its own idempotency key, derived from
+   * `config.idempotencyKey` or, by default, from the quote ID and the
+   * overrides. Calling this again with the same arguments after the quote
+   * update failed therefore replays the invoice that was already created
+   * instead of creating a second one. No default key is derived when the
+   * client was created with `idempotencyKeys: false`.
+   *
+   * @param id - Quote UUID
+   * @param overrides - Invoice fields to set instead of the quote's values (e.g. due_date)
+   * @param config - Per-request options applied to every request; `idempotencyKey` is suffixed per step
+   * @returns The converted quote and the new invoice
+   * @throws InvalidStateError if the quote is not approved
+   *
+   * @example
+   * ```typescript
+   * const { quote, invoice } = await workbench.quotes.convertToInvoice('quote-uuid', {
+   *   due_date: '2024-03-15'
+   * });
+   * console.log(`Quote ${quote.quote_number} is now invoice ${invoice.invoice_number}`);
+   * ```
+   */
+  convertToInvoice(
+    id: string,
+    overrides: Partial<CreateInvoiceOptions> = {},
+    config?: RequestConfig
+  ): WorkbenchPromise<QuoteConversion> {
+    return new WorkbenchPromise(
+      this.get(id, { ...config, cache: false }).then(async ({ data: quote }) => {
+        assertTransition(quote, 'converted', 'converted to an invoice');
+
+        // The invoice POST and the quote PUT are different requests and must not share a key
+        const key = config?.idempotencyKey ?? this.conversionKey(quote.id, overrides);
+        const stepConfig = (step: string): RequestConfig | undefined =>
+          key ? { ...config, idempotencyKey: `${key}:${step}` } : config;
+
+        const { data: invoice } = await this.client.invoices.create({
+          client_id: quote.client_id,
+          job_id: quote.job_id,
+          quote_id: quote.id,
+          items: quote.items.map(({ description, quantity, unit_price, sort_order }) => ({
+            description,
+            quantity,
+            unit_price,
+            sort_order,
+          })),
+          tax_rate: quote.tax_rate,
+          discount_amount: quote.discount_amount,
+          notes: quote.notes,
+          terms: quote.terms,
+          ...overrides,
+        }, stepConfig('invoice'));
+
+        return this.update(id, { status: 'converted' }, stepConfig('quote'))
+          .map(({ data: converted }) => ({ quote: converted, invoice }))
+          .withResponse();
+      })
+    );
+  }
+
+  /**
+   * Approve a quote on behalf of the client
+   *
+   * Allowed from 'sent' or 'viewed'. Records who approved the quote and when.
+   *
+   * @param id - Quote UUID
+   * @param options - Who approved the quote and, optionally, the name they signed with
+   * @param config - Per-request options applied to every request
+   * @returns Approved quote
+   * @throws InvalidStateError if the quote cannot be approved from its current status
+   *
+   * @example
+   * ```typescript
+   * const { data: quote } = await workbench.quotes.approve('quote-uuid', {
+   *   approvedBy: 'portal:client-uuid',
+   *   signatureName: 'Jane Smith'
+   * });
+   * ```
+   */
+  approve(id: string, options: ApproveQuoteOptions, config?: RequestConfig): WorkbenchPromise<ApiResponse<Quote>> {
+    return this.transition(id, 'approved', 'approved', {
+      approved_at: new Date(),
+      approved_by: options.approvedBy,
+      ...(options.signatureName !== undefined && { signature_name: options.signatureName }),
+    }, config);
+  }
+
+  /**
+   * Reject a quote on behalf of the client
+   *
+   * Allowed from 'sent' or 'viewed'.
+   *
+   * @param id - Quote UUID
+   * @param options - Why the quote was rejected
+   * @param config - Per-request options applied to every request
+   * @returns Rejected quote
+   * @throws InvalidStateError if the quote cannot be rejected from its current status
+   *
+   * @example
+   * ```typescript
+   * await workbench.quotes.reject('quote-uuid', { reason: 'Over budget' });
+   * ```
+   */
+  reject(id: string, options: RejectQuoteOptions, config?: RequestConfig): WorkbenchPromise<ApiResponse<Quote>> {
+    return this.transition(id, 'rejected', 'rejected', { rejection_reason: options.reason }, config);
+  }
+
+  /**
+   * Mark a sent quote as viewed by the client
+   *
+   * Allowed from 'sent' only, so call it when the client first opens the quote.
+   *
+   * @param id - Quote UUID
+   * @param config - Per-request options applied to every request
+   * @returns Viewed quote
+   * @throws InvalidStateError if the quote is not in 'sent' status
+   *
+   * @example
+   * ```typescript
+   * if (quote.status === 'sent') {
+   *   await workbench.quotes.markViewed(quote.id);
+   * }
+   * ```
+   */
+  markViewed(id: string, config?: RequestConfig): WorkbenchPromise<ApiResponse<Quote>> {
+    return this.transition(id, 'viewed', 'marked viewed', {}, config);
+  }
+
+  /**
+   * Expire a quote that was not answered in time
+   *
+   * Allowed from 'draft', 'sent' or 'viewed'.
+   *
+   * @param id - Quote UUID
+   * @param config - Per-request options applied to every request
+   * @returns Expired quote
+   * @throws InvalidStateError if the quote has already been answered, expired or converted
+   *
+   * @example
+   * ```typescript
+   * await workbench.quotes.expire('quote-uuid');
+   * ```
+   */
+  expire(id: string, config?: RequestConfig): WorkbenchPromise<ApiResponse<Quote>> {
+    return this.transition(id, 'expired', 'expired', {}, config);
+  }
+
+  /**
+   * Default idempotency key for converting a quote with the given overrides
+   *
+   * Undefined when the client does not generate idempotency keys.
+   */
+  private conversionKey(quoteId: string, overrides: Partial<CreateInvoiceOptions>): string | undefined {
+    if (!this.client.idempotencyKeysEnabled) {
+      return undefined;
+    }
+
+    const digest = createHash('sha256').update(JSON.stringify(overrides)).digest('hex').slice(0, 16);
+    return `quote-conversion-${quoteId}-${digest}`;
+  }
+
+  /**
+   * Move a quote to a new status after checking the transition is allowed
+   *
+   * The current status is read bypassing the response cache. The returned
+   * promise carries the response metadata of the update.
+   */
+  private transition(
+    id: string,
+    target: QuoteStatus,
+    action: string,
+    data: UpdateQuoteOptions,
+    config?: RequestConfig
+  ): WorkbenchPromise<ApiResponse<Quote>> {
+    return new WorkbenchPromise(
+      this.get(id, { ...config, cache: false }).then(({ data: quote }) => {
+        assertTransition(quote, target, action);
+        return this.update(id, { ...data, status: target }, config).withResponse();
+      })
+    );
   }
 }
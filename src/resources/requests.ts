@@ -7,6 +7,8 @@
  */
 
 import { WorkbenchClient } from '../client.js';
+import { PageIterator } from '../utils/pagination.js';
+import type { WorkbenchPromise } from '../utils/workbench-promise.js';
 import {
   ServiceRequest,
   ApiResponse,
@@ -14,6 +16,7 @@ import {
   CreateServiceRequestOptions,
   UpdateServiceRequestOptions,
   ListServiceRequestsOptions,
+  RequestConfig,
 } from '../types/index.js';
 
 /**
@@ -48,6 +51,7 @@ export class RequestsResource {
    * Returns a paginated list of service requests for the authenticated business.
    *
    * @param options - List options (pagination, filtering, sorting)
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Paginated list of requests
    *
    * @example
@@ -60,23 +64,53 @@ export class RequestsResource {
    * });
    * ```
    */
-  async list(options: ListServiceRequestsOptions = {}): Promise<ListResponse<ServiceRequest>> {
+  list(
+    options: ListServiceRequestsOptions = {},
+    config?: RequestConfig
+  ): WorkbenchPromise<ListResponse<ServiceRequest>> {
     return this.client.get<ListResponse<ServiceRequest>>('/v1/requests', {
       page: options.page,
       per_page: options.per_page,
+      limit: options.limit,
+      offset: options.offset,
       search: options.search,
       sort: options.sort,
       order: options.order,
       status: options.status,
       priority: options.priority,
       client_id: options.client_id,
-    });
+    }, config);
+  }
+
+  /**
+   * Iterate over all service requests
+   *
+   * Automatically fetches subsequent pages as the iterator is consumed.
+   * Accepts the same filters as `list()`.
+   *
+   * @param options - List options (filtering, sorting, starting page)
+   * @param config - Per-request options applied to every page request
+   * @returns Async iterator over every matching service request
+   *
+   * @example
+   * ```typescript
+   * for await (const request of workbench.requests.listAll({ status: 'new' })) {
+   *   console.log(request.title);
+   * }
+   * ```
+   */
+  listAll(
+    options: ListServiceRequestsOptions = {},
+    config?: RequestConfig
+  ): PageIterator<ServiceRequest> {
+    return new PageIterator((params) => this.list({ ...options, ...params }, config), options);
   }
 
   /**
    * Get a request by ID
    *
    * @param id - Request UUID
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Request details
    *
    * @example
@@ -85,14 +119,15 @@ export class RequestsResource {
    * console.log(`Request: ${request.title} (${request.status})`);
    * ```
    */
-  async get(id: string): Promise<ApiResponse<ServiceRequest>> {
-    return this.client.get<ApiResponse<ServiceRequest>>(`/v1/requests/${id}`);
+  get(id: string, config?: RequestConfig): WorkbenchPromise<ApiResponse<ServiceRequest>> {
+    return this.client.get<ApiResponse<ServiceRequest>>(`/v1/requests/${id}`, undefined, config);
   }
 
   /**
    * Create a new request
    *
    * @param data - Request data
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Created request
    *
    * @example
@@ -111,8 +146,11 @@ export class RequestsResource {
    * });
    * ```
    */
-  async create(data: CreateServiceRequestOptions): Promise<ApiResponse<ServiceRequest>> {
-    return this.client.post<ApiResponse<ServiceRequest>>('/v1/requests', data);
+  create(
+    data: CreateServiceRequestOptions,
+    config?: RequestConfig
+  ): WorkbenchPromise<ApiResponse<ServiceRequest>> {
+    return this.client.post<ApiResponse<ServiceRequest>>('/v1/requests', data, config);
   }
 
   /**
@@ -120,6 +158,7 @@ export class RequestsResource {
    *
    * @param id - Request UUID
    * @param data - Fields to update
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Updated request
    *
    * @example
@@ -132,8 +171,12 @@ export class RequestsResource {
    * });
    * ```
    */
-  async update(id: string, data: UpdateServiceRequestOptions): Promise<ApiResponse<ServiceRequest>> {
-    return this.client.put<ApiResponse<ServiceRequest>>(`/v1/requests/${id}`, data);
+  update(
+    id: string,
+    data: UpdateServiceRequestOptions,
+    config?: RequestConfig
+  ): WorkbenchPromise<ApiResponse<ServiceRequest>> {
+    return this.client.put<ApiResponse<ServiceRequest>>(`/v1/requests/${id}`, data, config);
   }
 
   /**
@@ -142,13 +185,14 @@ export class RequestsResource {
    * Permanently deletes a request. This action cannot be undone.
    *
    * @param id - Request UUID
+   * @param config - Per-request options (signal, timeout, retries, headers)
    *
    * @example
    * ```typescript
    * await workbench.requests.delete('request-uuid');
    * ```
    */
-  async delete(id: string): Promise<void> {
-    await this.client.delete<void>(`/v1/requests/${id}`);
+  delete(id: string, config?: RequestConfig): WorkbenchPromise<void> {
+    return this.client.delete<void>(`/v1/requests/${id}`, config).map(() => undefined);
   }
 }
@@ -6,6 +6,8 @@
  */
 
 import type { WorkbenchClient } from '../client.js';
+import { PageIterator } from '../utils/pagination.js';
+import type { WorkbenchPromise } from '../utils/workbench-promise.js';
 import type {
   Webhook,
   WebhookDelivery,
@@ -17,6 +19,7 @@ import type {
   ListResponse,
   WebhookSecretResponse,
   WebhookEventTypeInfo,
+  RequestConfig,
 } from '../types/index.js';
 
 /**
@@ -50,6 +53,7 @@ export class WebhooksResource {
    * Returns a paginated list of webhook subscriptions for the authenticated business.
    *
    * @param options - List options (pagination)
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Paginated list of webhooks
    *
    * @example
@@ -60,17 +64,40 @@ export class WebhooksResource {
    * });
    * ```
    */
-  async list(options: ListOptions = {}): Promise<ListResponse<Webhook>> {
+  list(options: ListOptions = {}, config?: RequestConfig): WorkbenchPromise<ListResponse<Webhook>> {
     return this.client.get<ListResponse<Webhook>>('/v1/webhooks', {
       page: options.page,
       per_page: options.per_page,
-    });
+      limit: options.limit,
+      offset: options.offset,
+    }, config);
+  }
+
+  /**
+   * Iterate over all webhooks
+   *
+   * Automatically fetches subsequent pages as the iterator is consumed.
+   *
+   * @param options - List options (starting page, page size)
+   * @param config - Per-request options applied to every page request
+   * @returns Async iterator over every webhook
+   *
+   * @example
+   * ```typescript
+   * for await (const webhook of workbench.webhooks.listAll()) {
+   *   console.log(`${webhook.name}: ${webhook.url}`);
+   * }
+   * ```
+   */
+  listAll(options: ListOptions = {}, config?: RequestConfig): PageIterator<Webhook> {
+    return new PageIterator((params) => this.list({ ...options, ...params }, config), options);
   }
 
   /**
    * Get a webhook by ID
    *
    * @param id - Webhook UUID
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Webhook details
    *
    * @example
@@ -80,8 +107,8 @@ export class WebhooksResource {
    * console.log(`Events: ${webhook.events.join(', ')}`);
    * ```
    */
-  async get(id: string): Promise<ApiResponse<Webhook>> {
-    return this.client.get<ApiResponse<Webhook>>(`/v1/webhooks/${id}`);
+  get(id: string, config?: RequestConfig): WorkbenchPromise<ApiResponse<Webhook>> {
+    return this.client.get<ApiResponse<Webhook>>(`/v1/webhooks/${id}`, undefined, config);
   }
 
   /**
@@ -91,6 +118,7 @@ export class WebhooksResource {
    * in the response - store it securely to verify webhook signatures.
    *
    * @param data - Webhook data
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Created webhook (includes secret)
    *
    * @example
@@ -112,8 +140,8 @@ export class WebhooksResource {
    * console.log('Store this secret:', webhook.secret);
    * ```
    */
-  async create(data: CreateWebhookOptions): Promise<ApiResponse<Webhook>> {
-    return this.client.post<ApiResponse<Webhook>>('/v1/webhooks', data);
+  create(data: CreateWebhookOptions, config?: RequestConfig): WorkbenchPromise<ApiResponse<Webhook>> {
+    return this.client.post<ApiResponse<Webhook>>('/v1/webhooks', data, config);
   }
 
   /**
@@ -121,6 +149,7 @@ export class WebhooksResource {
    *
    * @param id - Webhook UUID
    * @param data - Fields to update
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Updated webhook
    *
    * @example
@@ -134,8 +163,12 @@ export class WebhooksResource {
    * await workbench.webhooks.update('webhook-uuid', { is_active: false });
    * ```
    */
-  async update(id: string, data: UpdateWebhookOptions): Promise<ApiResponse<Webhook>> {
-    return this.client.put<ApiResponse<Webhook>>(`/v1/webhooks/${id}`, data);
+  update(
+    id: string,
+    data: UpdateWebhookOptions,
+    config?: RequestConfig
+  ): WorkbenchPromise<ApiResponse<Webhook>> {
+    return this.client.put<ApiResponse<Webhook>>(`/v1/webhooks/${id}`, data, config);
   }
 
   /**
@@ -145,14 +178,15 @@ export class WebhooksResource {
    * will be sent to this endpoint.
    *
    * @param id - Webhook UUID
+   * @param config - Per-request options (signal, timeout, retries, headers)
    *
    * @example
    * ```typescript
    * await workbench.webhooks.delete('webhook-uuid');
    * ```
    */
-  async delete(id: string): Promise<void> {
-    await this.client.delete<void>(`/v1/webhooks/${id}`);
+  delete(id: string, config?: RequestConfig): WorkbenchPromise<void> {
+    return this.client.delete<void>(`/v1/webhooks/${id}`, config).map(() => undefined);
   }
 
   /**
@@ -163,6 +197,7 @@ export class WebhooksResource {
    *
    * @param webhookId - Webhook UUID
    * @param options - List options (pagination, filtering)
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Paginated list of delivery attempts
    *
    * @example
@@ -177,15 +212,48 @@ export class WebhooksResource {
    * });
    * ```
    */
-  async listDeliveries(
+  listDeliveries(
     webhookId: string,
-    options: ListWebhookDeliveriesOptions = {}
-  ): Promise<ListResponse<WebhookDelivery>> {
+    options: ListWebhookDeliveriesOptions = {},
+    config?: RequestConfig
+  ): WorkbenchPromise<ListResponse<WebhookDelivery>> {
     return this.client.get<ListResponse<WebhookDelivery>>(`/v1/webhooks/${webhookId}/deliveries`, {
       page: options.page,
       per_page: options.per_page,
+      limit: options.limit,
+      offset: options.offset,
       event_type: options.event_type,
-    });
+    }, config);
+  }
+
+  /**
+   * Iterate over all deliveries for a webhook
+   *
+   * Automatically fetches subsequent pages as the iterator is consumed.
+   * Accepts the same filters as `listDeliveries()`.
+   *
+   * @param webhookId - Webhook UUID
+   * @param options - List options (filtering, starting page)
+   * @param config - Per-request options applied to every page request
+   * @returns Async iterator over every matching delivery
+   *
+   * @example
+   * ```typescript
+   * const failed = [];
+   * for await (const delivery of workbench.webhooks.listAllDeliveries('webhook-uuid')) {
+   *   if (delivery.failed_at) failed.push(delivery);
+   * }
+   * ```
+   */
+  listAllDeliveries(
+    webhookId: string,
+    options: ListWebhookDeliveriesOptions = {},
+    config?: RequestConfig
+  ): PageIterator<WebhookDelivery> {
+    return new PageIterator(
+      (params) => this.listDeliveries(webhookId, { ...options, ...params }, config),
+      options
+    );
   }
 
   /**
@@ -195,6 +263,7 @@ export class WebhooksResource {
    * verifying your webhook handler is working correctly.
    *
    * @param id - Webhook UUID
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Test delivery result
    *
    * @example
@@ -203,8 +272,15 @@ export class WebhooksResource {
    * console.log('Test delivery:', result);
    * ```
    */
-  async test(id: string): Promise<ApiResponse<{ message: string; delivery_id: string }>> {
-    return this.client.post<ApiResponse<{ message: string; delivery_id: string }>>(`/v1/webhooks/${id}/test`);
+  test(
+    id: string,
+    config?: RequestConfig
+  ): WorkbenchPromise<ApiResponse<{ message: string; delivery_id: string }>> {
+    return this.client.post<ApiResponse<{ message: string; delivery_id: string }>>(
+      `/v1/webhooks/${id}/test`,
+      undefined,
+      config
+    );
   }
 
   /**
@@ -215,6 +291,7 @@ export class WebhooksResource {
    *
    * @param webhookId - Webhook UUID
    * @param deliveryId - Delivery UUID
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns Delivery details
    *
    * @example
@@ -227,9 +304,15 @@ export class WebhooksResource {
    * console.log(`Response time: ${delivery.response_time_ms}ms`);
    * ```
    */
-  async getDelivery(webhookId: string, deliveryId: string): Promise<ApiResponse<WebhookDelivery>> {
+  getDelivery(
+    webhookId: string,
+    deliveryId: string,
+    config?: RequestConfig
+  ): WorkbenchPromise<ApiResponse<WebhookDelivery>> {
     return this.client.get<ApiResponse<WebhookDelivery>>(
-      `/v1/webhooks/${webhookId}/deliveries/${deliveryId}`
+      `/v1/webhooks/${webhookId}/deliveries/${deliveryId}`,
+      undefined,
+      config
     );
   }
 
@@ -241,6 +324,7 @@ export class WebhooksResource {
    * handler with the new secret.
    *
    * @param id - Webhook UUID
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns New webhook secret
    *
    * @example
@@ -250,8 +334,8 @@ export class WebhooksResource {
    * // Update your webhook handler with the new secret!
    * ```
    */
-  async regenerateSecret(id: string): Promise<ApiResponse<WebhookSecretResponse>> {
-    return this.client.post<ApiResponse<WebhookSecretResponse>>(`/v1/webhooks/${id}/secret`);
+  regenerateSecret(id: string, config?: RequestConfig): WorkbenchPromise<ApiResponse<WebhookSecretResponse>> {
+    return this.client.post<ApiResponse<WebhookSecretResponse>>(`/v1/webhooks/${id}/secret`, undefined, config);
   }
 
   /**
@@ -260,6 +344,7 @@ export class WebhooksResource {
    * Returns all event types that can be subscribed to, with
    * descriptions and categories.
    *
+   * @param config - Per-request options (signal, timeout, retries, headers)
    * @returns List of available event types
    *
    * @example
@@ -270,7 +355,7 @@ export class WebhooksResource {
    * });
    * ```
    */
-  async listEventTypes(): Promise<ApiResponse<WebhookEventTypeInfo[]>> {
-    return this.client.get<ApiResponse<WebhookEventTypeInfo[]>>('/v1/webhooks/event-types');
+  listEventTypes(config?: RequestConfig): WorkbenchPromise<ApiResponse<WebhookEventTypeInfo[]>> {
+    return this.client.get<ApiResponse<WebhookEventTypeInfo[]>>('/v1/webhooks/event-types', undefined, config);
   }
 }
@@ -6,24 +6,190 @@
  * full type safety when working with the Workbench API.
  */
 
+import type { WorkbenchError } from '../errors.js';
+import type { OAuthClientConfig, OAuthTokens } from '../utils/oauth.js';
+import type { DateOnly } from '../utils/dates.js';
+
 // ===========================================
 // CONFIGURATION TYPES
 // ===========================================
 
 /**
  * Configuration options for the Workbench client
+ *
+ * @typeParam D - Date mode, inferred from the `dates` option
  */
-export interface WorkbenchConfig {
+export interface WorkbenchConfig<D extends DateMode = DateMode> {
   /** API key for authentication (wbk_live_xxx or wbk_test_xxx) */
   apiKey?: string;
   /** OAuth access token for third-party app authentication */
   accessToken?: string;
+  /**
+   * Supplies the access token for each request instead of a fixed
+   * accessToken. Called with `forceRefresh: true` after a 401.
+   */
+  tokenProvider?: TokenProvider;
+  /**
+   * OAuth refresh token. When set, an expired access token is refreshed
+   * automatically on 401 and the request is retried once.
+   */
+  refreshToken?: string;
+  /** OAuth client settings used to refresh tokens (required with refreshToken) */
+  oauthClient?: OAuthClientConfig;
+  /** Called after a refresh with the new tokens, e.g. to persist a rotated refresh token */
+  onTokenRefreshed?: (tokens: OAuthTokens) => void | Promise<void>;
   /** Base URL for the API (defaults to https://api.tryworkbench.app) */
   baseUrl?: string;
-  /** Request timeout in milliseconds (defaults to 30000) */
+  /** Request timeout in milliseconds, from 1 to 2^31 - 1 (defaults to 30000) */
   timeout?: number;
   /** Maximum number of retries for failed requests (defaults to 3) */
   maxRetries?: number;
+  /**
+   * Automatically send an Idempotency-Key header on POST/PUT/PATCH/DELETE
+   * requests (defaults to true). When disabled, POST and PATCH requests are
+   * only retried if an idempotency key is provided explicitly.
+   */
+  idempotencyKeys?: boolean;
+  /**
+   * Share one fetch between identical GET requests (same path, query and
+   * per-call options) that are in flight at the same time (defaults to true).
+   * Calls with their own abort signal are never shared.
+   */
+  dedupeRequests?: boolean;
+  /**
+   * Fraction of the rate limit remaining at which a `rateLimitWarning`
+   * event is emitted (defaults to 0.1, i.e. 10% of quota left)
+   */
+  rateLimitWarningThreshold?: number;
+  /**
+   * Custom fetch implementation (defaults to the global fetch). Useful for
+   * proxies, custom agents, or testing without patching globals.
+   */
+  fetch?: FetchFunction;
+  /** Middleware applied to every HTTP request, in order (see WorkbenchClient.use) */
+  middleware?: Middleware[];
+  /**
+   * OpenTelemetry-compatible tracer. When set, one span is recorded per
+   * SDK call (covering all retries), e.g. `trace.getTracer('workbench')`.
+   */
+  tracer?: Tracer;
+  /**
+   * Logger for request diagnostics (defaults to the console when
+   * WORKBENCH_LOG is set). Secrets are redacted before logging.
+   */
+  logger?: Logger;
+  /**
+   * Minimum level to log (defaults to WORKBENCH_LOG, or 'debug' when a
+   * logger is provided so the logger can apply its own filtering)
+   */
+  logLevel?: LogLevel;
+  /**
+   * Refuse to construct the client with a live API key. Defaults to true
+   * when NODE_ENV is "test", so test suites cannot touch production data.
+   */
+  requireTestMode?: boolean;
+  /** Maximum number of requests in flight at once; extra calls are queued (default: unlimited) */
+  maxConcurrency?: number;
+  /**
+   * Maximum sustained request rate, enforced with a token bucket that
+   * allows bursts of up to this many requests (default: unlimited)
+   */
+  requestsPerSecond?: number;
+  /**
+   * Cache GET responses and revalidate them with ETag/Last-Modified.
+   * `true` uses an in-memory LRU store with default settings.
+   */
+  cache?: boolean | CacheOptions;
+  /**
+   * Fail fast while the API is degraded. `true` uses the default settings.
+   * Disabled by default.
+   */
+  circuitBreaker?: boolean | CircuitBreakerOptions;
+  /**
+   * Check response bodies against the SDK's types at runtime. `'warn'` logs
+   * mismatches through the logger; `'throw'` rejects the call with
+   * ResponseValidationError. Disabled by default.
+   */
+  validateResponses?: ValidationMode;
+  /**
+   * How timestamp fields are returned: `'string'` (default) keeps the API's
+   * ISO strings, `'date'` converts timestamps to Date and date-only fields
+   * (e.g. `due_date`) to DateOnly. Response types switch to match.
+   */
+  dates?: D;
+}
+
+/**
+ * How timestamp fields in responses are represented
+ */
+export type DateMode = 'string' | 'date';
+
+/**
+ * Timestamp accepted in request bodies; Dates are sent as ISO strings
+ */
+export type DateTimeInput = string | Date;
+
+/**
+ * Calendar date accepted in request bodies; sent as `YYYY-MM-DD`
+ * (Dates use their UTC calendar date)
+ */
+export type DateInput = string | DateOnly | Date;
+
+/**
+ * Environment the client's credentials belong to
+ *
+ * - `live`: production API key (wbk_live_...)
+ * - `test`: test-mode API key (wbk_test_...)
+ * - `oauth`: OAuth access token, whose environment cannot be told from the token
+ */
+export type WorkbenchMode = 'live' | 'test' | 'oauth';
+
+/**
+ * Returns the access token to authenticate with
+ *
+ * @example
+ * ```typescript
+ * const tokenProvider: TokenProvider = async ({ forceRefresh }) => {
+ *   return forceRefresh ? vault.rotateWorkbenchToken() : vault.getWorkbenchToken();
+ * };
+ * ```
+ */
+export type TokenProvider = (context: { forceRefresh: boolean }) => string | Promise<string>;
+
+/**
+ * Per-request options accepted by every resource method
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * const { data } = await workbench.clients.list({ status: 'active' }, {
+ *   signal: controller.signal,
+ *   timeout: 120000,
+ *   maxRetries: 0
+ * });
+ * ```
+ */
+export interface RequestConfig {
+  /** Signal to cancel the request (including pending retries) */
+  signal?: AbortSignal;
+  /** Request timeout in milliseconds, from 1 to 2^31 - 1 (overrides the client timeout) */
+  timeout?: number;
+  /** Maximum number of retries (overrides the client maxRetries) */
+  maxRetries?: number;
+  /** Additional headers to send with the request */
+  headers?: Record<string, string>;
+  /**
+   * Idempotency key for POST/PUT/PATCH/DELETE requests. Defaults to a
+   * generated key that is reused across retries of the same call.
+   */
+  idempotencyKey?: string;
+  /**
+   * Queue lane used when maxConcurrency or requestsPerSecond is set
+   * (defaults to 'normal'). Higher lanes are always served first.
+   */
+  priority?: RequestPriority;
+  /** Set to false to bypass the response cache for this GET request */
+  cache?: boolean;
 }
 
 /**
@@ -98,6 +264,32 @@ export interface ListResponse<T> {
   pagination: Pagination;
 }
 
+/**
+ * HTTP response metadata for an API call
+ */
+export interface ResponseInfo {
+  /** HTTP status code */
+  status: number;
+  /** Response headers */
+  headers: Headers;
+  /** Request ID from the X-Request-Id header or response meta, for support tickets */
+  requestId?: string;
+  /** Total time spent on the call in milliseconds, including retries */
+  durationMs: number;
+  /** Number of HTTP attempts made (1 if the first attempt succeeded, 0 if served from cache) */
+  attempts: number;
+  /** Whether the body came from the response cache (fresh hit or 304 revalidation) */
+  cached?: boolean;
+}
+
+/**
+ * Parsed response body together with its HTTP response metadata
+ */
+export interface WithResponse<T> {
+  data: T;
+  response: ResponseInfo;
+}
+
 /**
  * API error response
  */
@@ -113,6 +305,357 @@ export interface ApiError {
   meta: ResponseMeta;
 }
 
+// ===========================================
+// TRANSPORT TYPES
+// ===========================================
+
+/**
+ * HTTP methods used by the API
+ */
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+
+/**
+ * How a successful response body is read
+ *
+ * - `json`: parsed JSON (default)
+ * - `buffer`: the raw bytes as a Buffer
+ * - `stream`: the unread body as a web ReadableStream
+ */
+export type ResponseType = 'json' | 'buffer' | 'stream';
+
+/**
+ * Fetch-compatible function used to send HTTP requests
+ */
+export type FetchFunction = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Outgoing HTTP request as seen by middleware
+ */
+export interface HttpRequest {
+  /** HTTP method */
+  method: HttpMethod;
+  /** Fully qualified URL including query string */
+  url: string;
+  /** Request headers (may be modified by middleware) */
+  headers: Record<string, string>;
+  /** Serialized request body */
+  body?: string;
+  /** Abort signal for the request */
+  signal: AbortSignal;
+  /** Attempt number, starting at 0 for the first try */
+  attempt: number;
+}
+
+/**
+ * Sends a request to the next middleware, or to fetch at the end of the chain
+ */
+export type MiddlewareNext = (request: HttpRequest) => Promise<Response>;
+
+/**
+ * Request/response middleware
+ *
+ * Middleware runs for every HTTP attempt, including retries. It can modify
+ * the request before calling `next`, inspect or replace the response, or
+ * short-circuit the chain by returning a response without calling `next`.
+ */
+export type Middleware = (request: HttpRequest, next: MiddlewareNext) => Promise<Response>;
+
+// ===========================================
+// QUEUE TYPES
+// ===========================================
+
+/**
+ * Request queue lane, e.g. 'high' for interactive calls and 'low' for batch work
+ */
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+/**
+ * Snapshot of the client-side request queue
+ */
+export interface QueueStats {
+  /** Requests currently in flight */
+  active: number;
+  /** Requests waiting for a slot */
+  queued: number;
+  /** Waiting requests per lane */
+  queuedByPriority: Record<RequestPriority, number>;
+  /** Configured concurrency limit (Infinity if unlimited) */
+  maxConcurrency: number;
+  /** Configured rate limit (Infinity if unlimited) */
+  requestsPerSecond: number;
+}
+
+// ===========================================
+// CACHE TYPES
+// ===========================================
+
+/**
+ * Cached GET response
+ */
+export interface CacheEntry {
+  /** Raw response body */
+  body: string;
+  /** HTTP status of the cached response */
+  status: number;
+  /** ETag response header, sent back as If-None-Match */
+  etag?: string;
+  /** Last-Modified response header, sent back as If-Modified-Since */
+  lastModified?: string;
+  /** When the entry stops being fresh (epoch ms); stale entries are revalidated */
+  expiresAt: number;
+}
+
+/**
+ * Storage backend for cached responses, e.g. an in-memory LRU or Redis
+ *
+ * Entries are plain JSON-serializable objects. Stores may keep entries past
+ * `expiresAt`: stale entries are still useful for conditional requests.
+ */
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+}
+
+/**
+ * Response cache settings
+ *
+ * @example
+ * ```typescript
+ * const workbench = new WorkbenchClient({
+ *   apiKey: 'wbk_live_xxx',
+ *   cache: { ttl: 60000, ttlByResource: { integrations: 3600000, clients: 0 } }
+ * });
+ * ```
+ */
+export interface CacheOptions {
+  /** Storage backend (defaults to an in-memory LRU store) */
+  store?: CacheStore;
+  /** How long responses are served without revalidation, in ms (default: 60000) */
+  ttl?: number;
+  /** TTL overrides keyed by resource name, e.g. { integrations: 3600000 } */
+  ttlByResource?: Record<string, number>;
+  /**
+   * Prefix for cache keys. Defaults to a hash of the client's credentials so
+   * clients for different accounts can share a store safely. Required with a
+   * tokenProvider, whose tokens are not known up front: use one per account.
+   */
+  namespace?: string;
+}
+
+// ===========================================
+// CIRCUIT BREAKER TYPES
+// ===========================================
+
+/**
+ * Circuit breaker state: `closed` sends requests normally, `open` fails them
+ * fast, and `half-open` lets probe requests through to test recovery
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker settings
+ *
+ * Server errors (5xx), timeouts and network errors count as failures. Other
+ * responses, including 4xx and 429, count as successes or are ignored.
+ *
+ * @example
+ * ```typescript
+ * const workbench = new WorkbenchClient({
+ *   apiKey: 'wbk_live_xxx',
+ *   circuitBreaker: { failureThreshold: 0.5, minimumRequests: 20, resetTimeout: 10000 }
+ * });
+ * ```
+ */
+export interface CircuitBreakerOptions {
+  /** Fraction of failed attempts in the window that opens the circuit (default: 0.5) */
+  failureThreshold?: number;
+  /** Attempts needed in the window before the failure rate is evaluated (default: 10) */
+  minimumRequests?: number;
+  /** Length of the rolling window in milliseconds (default: 60000) */
+  windowMs?: number;
+  /** Time the circuit stays open before probing, in milliseconds (default: 30000) */
+  resetTimeout?: number;
+  /** Probe requests allowed at once while half-open (default: 1) */
+  halfOpenRequests?: number;
+}
+
+// ===========================================
+// VALIDATION TYPES
+// ===========================================
+
+/**
+ * What to do when a response does not match its type
+ */
+export type ValidationMode = 'warn' | 'throw';
+
+/**
+ * A single mismatch between a value and its expected type
+ */
+export interface ValidationIssue {
+  /** Location of the mismatch, e.g. `data.items[0].quantity` */
+  path: string;
+  /** Expected type, e.g. `number` or `string | null` */
+  expected: string;
+  /** Type that was found, e.g. `string` or `undefined` */
+  received: string;
+}
+
+// ===========================================
+// RATE LIMIT TYPES
+// ===========================================
+
+/**
+ * Rate-limit state reported by the API through X-RateLimit-* headers
+ */
+export interface RateLimitInfo {
+  /** Maximum number of requests allowed in the current window */
+  limit: number;
+  /** Requests remaining in the current window */
+  remaining: number;
+  /** When the current window resets (null if not reported) */
+  resetAt: Date | null;
+  /** Server-requested backoff in milliseconds from Retry-After (null if not sent) */
+  retryAfter: number | null;
+  /** When this state was read from a response */
+  updatedAt: Date;
+}
+
+// ===========================================
+// TRACING TYPES
+// ===========================================
+
+/**
+ * Span attribute value
+ */
+export type SpanAttributeValue = string | number | boolean;
+
+/**
+ * Minimal span interface, structurally compatible with `@opentelemetry/api`
+ */
+export interface Span {
+  setAttribute(key: string, value: SpanAttributeValue): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error): unknown;
+  end(): void;
+}
+
+/**
+ * Minimal tracer interface, structurally compatible with `@opentelemetry/api`
+ */
+export interface Tracer {
+  startSpan(
+    name: string,
+    options?: { kind?: number; attributes?: Record<string, SpanAttributeValue> }
+  ): Span;
+}
+
+// ===========================================
+// LOGGING TYPES
+// ===========================================
+
+/**
+ * Log levels, from most to least verbose
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'off';
+
+/**
+ * Structured logger, compatible with winston and console.
+ * Each method receives a message and a context object.
+ */
+export interface Logger {
+  debug(message: string, context?: Record<string, unknown>): void;
+  info(message: string, context?: Record<string, unknown>): void;
+  warn(message: string, context?: Record<string, unknown>): void;
+  error(message: string, context?: Record<string, unknown>): void;
+}
+
+// ===========================================
+// CLIENT EVENT TYPES
+// ===========================================
+
+/**
+ * Payload of the `request` event, emitted once when an SDK call starts
+ */
+export interface RequestEvent {
+  /** HTTP method */
+  method: HttpMethod;
+  /** Request path, e.g. /v1/clients/{id} */
+  path: string;
+  /** API resource the call belongs to, e.g. clients */
+  resource: string;
+}
+
+/**
+ * Payload of the `retry` event, emitted before each retry is sent
+ */
+export interface RetryEvent extends RequestEvent {
+  /** Attempt number about to be sent (1 for the first retry) */
+  attempt: number;
+  /** Delay before the retry in milliseconds */
+  delayMs: number;
+  /** HTTP status of the failed attempt (absent for network errors and timeouts) */
+  status?: number;
+  /** Error that caused the retry, for network errors and timeouts */
+  error?: WorkbenchError;
+}
+
+/**
+ * Payload of the `response` event, emitted when an SDK call succeeds
+ */
+export interface ResponseEvent extends RequestEvent {
+  /** HTTP status code */
+  status: number;
+  /** Request ID reported by the API */
+  requestId?: string;
+  /** Total time for the call including retries, in milliseconds */
+  durationMs: number;
+  /** Number of HTTP attempts made */
+  attempts: number;
+}
+
+/**
+ * Payload of the `error` event, emitted when an SDK call fails
+ */
+export interface RequestErrorEvent extends RequestEvent {
+  /** Error thrown to the caller */
+  error: WorkbenchError;
+  /** Total time for the call including retries, in milliseconds */
+  durationMs: number;
+  /** Number of HTTP attempts made */
+  attempts: number;
+}
+
+/**
+ * Payload of the `circuitStateChange` event
+ */
+export interface CircuitStateChangeEvent {
+  /** State before the change */
+  previous: CircuitState;
+  /** New state */
+  state: CircuitState;
+  /** Failure rate in the rolling window when the change happened (0-1) */
+  failureRate: number;
+}
+
+/**
+ * Events emitted by WorkbenchClient, keyed by event name
+ */
+export interface WorkbenchClientEvents {
+  /** Remaining quota dropped to or below the configured warning threshold */
+  rateLimitWarning: RateLimitInfo;
+  /** An SDK call started */
+  request: RequestEvent;
+  /** A failed attempt is about to be retried */
+  retry: RetryEvent;
+  /** An SDK call succeeded */
+  response: ResponseEvent;
+  /** An SDK call failed */
+  error: RequestErrorEvent;
+  /** The circuit breaker opened, closed, or started probing */
+  circuitStateChange: CircuitStateChangeEvent;
+}
+
 // ===========================================
 // CLIENT TYPES
 // ===========================================
@@ -175,7 +718,7 @@ export interface CreateClientOptions {
  * Options for updating a client
  */
 export interface UpdateClientOptions extends Partial<CreateClientOptions> {
-  next_contact_date?: string | null;
+  next_contact_date?: DateInput | null;
   ask_for_review?: boolean | null;
 }
 
@@ -231,6 +774,12 @@ export interface Invoice {
   sent_at: string | null;
   /** Timestamp when the invoice was fully paid */
   paid_at: string | null;
+  /** Quote this invoice was converted from */
+  quote_id?: string | null;
+  /** Timestamp when the invoice was voided */
+  voided_at?: string | null;
+  /** Reason given when the invoice was voided */
+  void_reason?: string | null;
   items: InvoiceItem[];
   client?: Client;
   created_at: string;
@@ -243,9 +792,11 @@ export interface Invoice {
 export interface CreateInvoiceOptions {
   client_id?: string | null;
   job_id?: string | null;
+  /** Quote the invoice is created from */
+  quote_id?: string | null;
   status?: InvoiceStatus;
-  issue_date?: string;
-  due_date?: string | null;
+  issue_date?: DateInput;
+  due_date?: DateInput | null;
   tax_rate?: number | null;
   discount_amount?: number | null;
   notes?: string | null;
@@ -258,6 +809,8 @@ export interface CreateInvoiceOptions {
  */
 export interface UpdateInvoiceOptions extends Partial<Omit<CreateInvoiceOptions, 'items'>> {
   items?: InvoiceItem[];
+  voided_at?: DateTimeInput | null;
+  void_reason?: string | null;
 }
 
 /**
@@ -268,6 +821,82 @@ export interface ListInvoicesOptions extends ListOptions {
   client_id?: string;
 }
 
+// ===========================================
+// PAYMENT TYPES
+// ===========================================
+
+/**
+ * How a payment was made
+ */
+export type PaymentMethod = 'cash' | 'check' | 'card' | 'bank_transfer' | 'other';
+
+/**
+ * Payment recorded against an invoice
+ */
+export interface Payment {
+  id: string;
+  invoice_id: string;
+  amount: number;
+  method: PaymentMethod;
+  /** Check number, transaction ID or other external reference */
+  reference: string | null;
+  notes: string | null;
+  /** Timestamp when the payment was received */
+  received_at: string;
+  /** Total refunded from this payment so far */
+  refunded_amount: number;
+  /** Timestamp of the latest refund */
+  refunded_at: string | null;
+  created_at: string;
+  updated_at: string | null;
+}
+
+/**
+ * Options for recording a payment
+ */
+export interface CreatePaymentOptions {
+  amount: number;
+  method: PaymentMethod;
+  reference?: string | null;
+  notes?: string | null;
+  /** Defaults to now */
+  received_at?: DateTimeInput;
+}
+
+/**
+ * Options for refunding a payment
+ */
+export interface RefundPaymentOptions {
+  /** Amount to refund; defaults to the rest of the payment */
+  amount?: number;
+  reason?: string | null;
+}
+
+/**
+ * Options for marking an invoice paid
+ */
+export interface MarkInvoicePaidOptions {
+  /** When the payment was received (defaults to now) */
+  paidAt?: DateTimeInput;
+  /** Amount received; defaults to the outstanding balance */
+  amount?: number;
+  /** How the invoice was paid (defaults to 'other') */
+  method?: PaymentMethod;
+  /** Check number, transaction ID or other external reference */
+  reference?: string;
+}
+
+/**
+ * A payment change together with the invoice it was applied to
+ *
+ * The invoice's `amount_paid` and `status` ('partial' or 'paid') are
+ * recalculated from its payments by the API.
+ */
+export interface PaymentResult {
+  payment: Payment;
+  invoice: Invoice;
+}
+
 // ===========================================
 // QUOTE TYPES
 // ===========================================
@@ -313,6 +942,10 @@ export interface Quote {
   approved_at: string | null;
   /** User ID or name of who approved the quote */
   approved_by: string | null;
+  /** Name the client signed with when approving */
+  signature_name?: string | null;
+  /** Reason given when the quote was rejected */
+  rejection_reason?: string | null;
   items: QuoteItem[];
   client?: Client;
   created_at: string;
@@ -326,8 +959,8 @@ export interface CreateQuoteOptions {
   client_id?: string | null;
   job_id?: string | null;
   status?: QuoteStatus;
-  issue_date?: string;
-  valid_until?: string | null;
+  issue_date?: DateInput;
+  valid_until?: DateInput | null;
   tax_rate?: number | null;
   discount_amount?: number | null;
   notes?: string | null;
@@ -340,6 +973,38 @@ export interface CreateQuoteOptions {
  */
 export interface UpdateQuoteOptions extends Partial<Omit<CreateQuoteOptions, 'items'>> {
   items?: QuoteItem[];
+  approved_at?: DateTimeInput | null;
+  approved_by?: string | null;
+  signature_name?: string | null;
+  rejection_reason?: string | null;
+}
+
+/**
+ * Options for approving a quote
+ */
+export interface ApproveQuoteOptions {
+  /** User ID or name of who approved the quote */
+  approvedBy: string;
+  /** Name the client signed with */
+  signatureName?: string;
+}
+
+/**
+ * Options for rejecting a quote
+ */
+export interface RejectQuoteOptions {
+  /** Why the quote was rejected */
+  reason: string;
+}
+
+/**
+ * Result of converting a quote to an invoice
+ */
+export interface QuoteConversion {
+  /** The quote, now in 'converted' status */
+  quote: Quote;
+  /** The invoice created from the quote */
+  invoice: Invoice;
 }
 
 /**
@@ -398,8 +1063,8 @@ export interface CreateJobOptions {
   description?: string | null;
   status?: JobStatus;
   priority?: JobPriority;
-  scheduled_start?: string | null;
-  scheduled_end?: string | null;
+  scheduled_start?: DateTimeInput | null;
+  scheduled_end?: DateTimeInput | null;
   estimated_duration?: number | null;
   address_id?: string | null;
   notes?: string | null;
@@ -409,8 +1074,8 @@ export interface CreateJobOptions {
  * Options for updating a job
  */
 export interface UpdateJobOptions extends Partial<CreateJobOptions> {
-  actual_start?: string | null;
-  actual_end?: string | null;
+  actual_start?: DateTimeInput | null;
+  actual_end?: DateTimeInput | null;
 }
 
 /**
@@ -472,7 +1137,7 @@ export interface CreateServiceRequestOptions {
   status?: ServiceRequestStatus;
   source?: string | null;
   priority?: ServiceRequestPriority | null;
-  requested_date?: string | null;
+  requested_date?: DateInput | null;
   preferred_time?: string | null;
   address?: string | null;
   contact_name?: string | null;
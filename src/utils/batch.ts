@@ -0,0 +1,212 @@
+/**
+ * @file utils/batch.ts
+ * @description Run many API calls with bounded concurrency and collect the outcome
+ *
+ * The API has no bulk endpoints, so bulk operations are individual calls.
+ * runBatch() runs them in parallel up to a limit and reports each item as
+ * succeeded, failed, or skipped, instead of rejecting on the first error.
+ */
+
+import { WorkbenchError } from '../errors.js';
+import type { RequestConfig } from '../types/index.js';
+
+/**
+ * Default number of items processed at once
+ */
+const DEFAULT_BATCH_CONCURRENCY = 5;
+
+/**
+ * Options for a batch run
+ */
+export interface BatchOptions {
+  /** Number of items processed at once (default: 5) */
+  concurrency?: number;
+  /** Stop starting new items after the first failure (default: false) */
+  stopOnError?: boolean;
+  /** Stop starting new items when aborted; items not started are reported as skipped */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for createMany() and updateMany()
+ */
+export interface BulkWriteOptions<TItem> extends BatchOptions {
+  /**
+   * Idempotency key for each item. Derive it from the item itself (e.g. a row
+   * ID from your import) so resubmitting `report.retryable` reuses the keys.
+   */
+  idempotencyKey?: (item: TItem) => string;
+}
+
+/**
+ * Item for an updateMany() call
+ */
+export interface BatchUpdate<TData> {
+  /** ID of the resource to update */
+  id: string;
+  /** Changes to apply */
+  data: TData;
+}
+
+/**
+ * Item that was processed successfully
+ */
+export interface BatchSuccess<TItem, TResult> {
+  /** Position of the item in the input */
+  index: number;
+  item: TItem;
+  result: TResult;
+}
+
+/**
+ * Item whose call failed
+ */
+export interface BatchFailure<TItem> {
+  /** Position of the item in the input */
+  index: number;
+  item: TItem;
+  /** Error from the call; validation failures carry `details` */
+  error: WorkbenchError;
+  /** Whether the failure is transient (rate limit, server, network, timeout or open circuit) */
+  retryable: boolean;
+}
+
+/**
+ * Item that was never started because the batch stopped early
+ */
+export interface BatchSkipped<TItem> {
+  /** Position of the item in the input */
+  index: number;
+  item: TItem;
+}
+
+/**
+ * Outcome of a batch run
+ */
+export interface BatchResult<TItem, TResult> {
+  /** Items that succeeded, in input order */
+  succeeded: BatchSuccess<TItem, TResult>[];
+  /** Items that failed, in input order */
+  failed: BatchFailure<TItem>[];
+  /** Items not started because of stopOnError or abort, in input order */
+  skipped: BatchSkipped<TItem>[];
+  /** Items worth resubmitting: retryable failures and skipped items, in input order */
+  retryable: TItem[];
+}
+
+/**
+ * Whether an error is transient, so the call may succeed if resubmitted
+ *
+ * @param error - Error from a failed call
+ */
+export function isRetryableError(error: WorkbenchError): boolean {
+  if (error.status === 0) {
+    return error.code === 'TIMEOUT' || error.code === 'NETWORK_ERROR' || error.code === 'CIRCUIT_OPEN';
+  }
+
+  return error.status === 429 || error.status >= 500;
+}
+
+/**
+ * Request options for one item of a bulk write
+ *
+ * Keys never depend on the item's position, so an item resubmitted from
+ * `report.retryable` is sent with the key it was first sent with. The key is
+ * `keyFor(item)` when given, otherwise the shared `config.idempotencyKey`
+ * joined to `itemId`. Without either, a shared key is dropped so items never
+ * replay each other, and the client generates a key per item instead.
+ *
+ * @param item - Item being written
+ * @param keyFor - Caller-supplied key for each item
+ * @param config - Per-request options for the whole batch
+ * @param itemId - Stable ID of the item, e.g. the record being updated
+ */
+export function bulkItemConfig<TItem>(
+  item: TItem,
+  keyFor: ((item: TItem) => string) | undefined,
+  config: RequestConfig | undefined,
+  itemId?: string
+): RequestConfig | undefined {
+  if (keyFor) {
+    return { ...config, idempotencyKey: keyFor(item) };
+  }
+  if (!config?.idempotencyKey) {
+    return config;
+  }
+  if (itemId !== undefined) {
+    return { ...config, idempotencyKey: `${config.idempotencyKey}:${itemId}` };
+  }
+
+  const { idempotencyKey: _shared, ...itemConfig } = config;
+  return itemConfig;
+}
+
+/**
+ * Process items with bounded concurrency and report every outcome
+ *
+ * @param items - Items to process
+ * @param fn - Call to make for each item
+ * @param options - Concurrency and stop options
+ * @returns Successes, failures and skipped items
+ *
+ * @example
+ * ```typescript
+ * const report = await runBatch(jobIds, (id) => workbench.jobs.get(id), { concurrency: 10 });
+ * console.log(`${report.succeeded.length} ok, ${report.failed.length} failed`);
+ * ```
+ */
+export async function runBatch<TItem, TResult>(
+  items: readonly TItem[],
+  fn: (item: TItem, index: number) => PromiseLike<TResult>,
+  options: BatchOptions = {}
+): Promise<BatchResult<TItem, TResult>> {
+  const concurrency = options.concurrency ?? DEFAULT_BATCH_CONCURRENCY;
+  if (!(concurrency >= 1)) {
+    throw new RangeError('concurrency must be at least 1');
+  }
+
+  const succeeded: BatchSuccess<TItem, TResult>[] = [];
+  const failed: BatchFailure<TItem>[] = [];
+  let next = 0;
+  let stopped = false;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length && !stopped && !options.signal?.aborted) {
+      const index = next++;
+      const item = items[index];
+
+      try {
+        succeeded.push({ index, item, result: await fn(item, index) });
+      } catch (error) {
+        const wrapped = error instanceof WorkbenchError
+          ? error
+          : new WorkbenchError(
+            error instanceof Error ? error.message : String(error),
+            0,
+            'UNKNOWN_ERROR',
+            undefined,
+            undefined,
+            { cause: error }
+          );
+
+        failed.push({ index, item, error: wrapped, retryable: isRetryableError(wrapped) });
+        if (options.stopOnError) {
+          stopped = true;
+        }
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+
+  const skipped = items.slice(next).map((item, offset) => ({ index: next + offset, item }));
+  const byIndex = (a: { index: number }, b: { index: number }) => a.index - b.index;
+  succeeded.sort(byIndex);
+  failed.sort(byIndex);
+
+  const retryable = [...failed.filter((failure) => failure.retryable), ...skipped]
+    .sort(byIndex)
+    .map(({ item }) => item);
+
+  return { succeeded, failed, skipped, retryable };
+}
@@ -0,0 +1,222 @@
+/**
+ * @file utils/cache.ts
+ * @description Response cache for GET requests
+ *
+ * Fresh entries are served without contacting the API. Stale entries are
+ * revalidated with If-None-Match / If-Modified-Since, and a 304 response
+ * serves the cached body. The store is pluggable; the default keeps the
+ * most recently used entries in memory.
+ *
+ * Keys include a generation per resource that is kept in the store. A write
+ * replaces the generation, which makes every cached record and list of that
+ * resource unreachable at once, whatever its query string.
+ */
+
+import { randomUUID } from 'crypto';
+import type { CacheEntry, CacheOptions, CacheStore } from '../types/index.js';
+
+/**
+ * Default number of entries kept by MemoryCacheStore
+ */
+const DEFAULT_MAX_ENTRIES = 500;
+
+/**
+ * Default time responses are served without revalidation
+ */
+const DEFAULT_CACHE_TTL = 60000;
+
+/**
+ * In-memory cache store that evicts the least recently used entry
+ *
+ * @example
+ * ```typescript
+ * const workbench = new WorkbenchClient({
+ *   apiKey: 'wbk_live_xxx',
+ *   cache: { store: new MemoryCacheStore(1000) }
+ * });
+ * ```
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly maxEntries: number;
+
+  /**
+   * @param maxEntries - Maximum number of entries to keep (default: 500)
+   */
+  constructor(maxEntries: number = DEFAULT_MAX_ENTRIES) {
+    this.maxEntries = maxEntries;
+  }
+
+  /**
+   * Number of entries currently stored
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  /**
+   * Remove every entry
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Response cache used by the client
+ *
+ * Store errors are reported to `onError` and otherwise treated as cache
+ * misses, so an unavailable backend never fails a request.
+ */
+export class ResponseCache {
+  private readonly store: CacheStore;
+  private readonly ttl: number;
+  private readonly ttlByResource: Record<string, number>;
+  private readonly namespace: string;
+  private readonly onError: (error: unknown) => void;
+
+  /**
+   * @param options - Cache settings
+   * @param namespace - Key prefix used when options.namespace is not set
+   * @param onError - Called when the store throws
+   */
+  constructor(options: CacheOptions, namespace: string, onError: (error: unknown) => void) {
+    this.store = options.store ?? new MemoryCacheStore();
+    this.ttl = options.ttl ?? DEFAULT_CACHE_TTL;
+    this.ttlByResource = options.ttlByResource ?? {};
+    this.namespace = options.namespace ?? namespace;
+    this.onError = onError;
+  }
+
+  /**
+   * Cache key for a request URL, in the resource's current generation
+   *
+   * @param url - Request URL
+   * @param resource - Resource name, e.g. 'clients'
+   */
+  async key(url: string, resource: string): Promise<string> {
+    const generation = await this.get(this.generationKey(resource));
+    return `${this.namespace}:${generation?.body ?? '0'}:${url}`;
+  }
+
+  /**
+   * Look up an entry, returning undefined on a miss or store error
+   */
+  async get(key: string): Promise<CacheEntry | undefined> {
+    try {
+      return await this.store.get(key);
+    } catch (error) {
+      this.onError(error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Whether an entry can be served without revalidation
+   */
+  isFresh(entry: CacheEntry): boolean {
+    return entry.expiresAt > Date.now();
+  }
+
+  /**
+   * Store a successful response
+   *
+   * @param key - Cache key
+   * @param resource - Resource name, used to pick the TTL
+   * @param status - HTTP status
+   * @param headers - Response headers (for ETag and Last-Modified)
+   * @param body - Raw response body
+   */
+  async set(key: string, resource: string, status: number, headers: Headers, body: string): Promise<void> {
+    await this.write(key, {
+      body,
+      status,
+      etag: headers.get('etag') ?? undefined,
+      lastModified: headers.get('last-modified') ?? undefined,
+      expiresAt: Date.now() + this.ttlFor(resource),
+    });
+  }
+
+  /**
+   * Mark an entry fresh again after a 304 response
+   */
+  async refresh(key: string, resource: string, entry: CacheEntry): Promise<void> {
+    await this.write(key, { ...entry, expiresAt: Date.now() + this.ttlFor(resource) });
+  }
+
+  /**
+   * Drop every cached response for a resource, e.g. after it was modified
+   *
+   * @param resource - Resource name, e.g. 'clients'
+   */
+  async invalidate(resource: string): Promise<void> {
+    await this.write(this.generationKey(resource), {
+      body: randomUUID(),
+      status: 200,
+      expiresAt: Number.MAX_SAFE_INTEGER,
+    });
+  }
+
+  /**
+   * Conditional request headers for revalidating an entry
+   */
+  conditionalHeaders(entry: CacheEntry): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (entry.etag) {
+      headers['If-None-Match'] = entry.etag;
+    }
+    if (entry.lastModified) {
+      headers['If-Modified-Since'] = entry.lastModified;
+    }
+    return headers;
+  }
+
+  /**
+   * Store key holding a resource's current generation
+   */
+  private generationKey(resource: string): string {
+    return `${this.namespace}:generation:${resource}`;
+  }
+
+  /**
+   * TTL for a resource, falling back to the default
+   */
+  private ttlFor(resource: string): number {
+    return this.ttlByResource[resource] ?? this.ttl;
+  }
+
+  /**
+   * Write an entry, reporting store errors
+   */
+  private async write(key: string, entry: CacheEntry): Promise<void> {
+    try {
+      await this.store.set(key, entry);
+    } catch (error) {
+      this.onError(error);
+    }
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ * @file utils/circuit-breaker.ts
+ * @description Circuit breaker that fails requests fast while the API is degraded
+ *
+ * Every HTTP attempt asks the breaker for permission before it is sent and
+ * reports its outcome afterwards. When the failure rate over a rolling window
+ * reaches the threshold the circuit opens and attempts fail immediately with
+ * CircuitOpenError. After `resetTimeout` the circuit is half-open: a limited
+ * number of probe attempts are let through, and the first probe outcome
+ * either closes the circuit again or re-opens it.
+ */
+
+import { CircuitOpenError } from '../errors.js';
+import type { CircuitBreakerOptions, CircuitState } from '../types/index.js';
+
+/**
+ * Default circuit breaker settings
+ */
+const DEFAULT_FAILURE_THRESHOLD = 0.5;
+const DEFAULT_MINIMUM_REQUESTS = 10;
+const DEFAULT_WINDOW_MS = 60000;
+const DEFAULT_RESET_TIMEOUT = 30000;
+const DEFAULT_HALF_OPEN_REQUESTS = 1;
+
+/**
+ * Result of an attempt as seen by the breaker
+ */
+export type CircuitOutcome = 'success' | 'failure' | 'ignored';
+
+/**
+ * Reports the outcome of an attempt; only the first call has an effect
+ */
+export type SettleFunction = (outcome: CircuitOutcome) => void;
+
+/**
+ * Called when the circuit changes state
+ */
+export type CircuitStateListener = (previous: CircuitState, state: CircuitState, failureRate: number) => void;
+
+/**
+ * Attempt outcome kept in the rolling window
+ */
+interface Sample {
+  at: number;
+  failed: boolean;
+}
+
+/**
+ * Failure-rate circuit breaker
+ *
+ * @example
+ * ```typescript
+ * const breaker = new CircuitBreaker({ failureThreshold: 0.5 });
+ * const settle = breaker.acquire(); // Throws CircuitOpenError while open
+ * try {
+ *   const response = await send();
+ *   settle(response.status >= 500 ? 'failure' : 'success');
+ * } finally {
+ *   settle('ignored');
+ * }
+ * ```
+ */
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly minimumRequests: number;
+  private readonly windowMs: number;
+  private readonly resetTimeout: number;
+  private readonly halfOpenRequests: number;
+  private readonly onStateChange?: CircuitStateListener;
+  private samples: Sample[] = [];
+  private currentState: CircuitState = 'closed';
+  private openedAt = 0;
+  private probes = 0;
+
+  /**
+   * @param options - Thresholds and timings
+   * @param onStateChange - Called after every state change
+   * @throws RangeError if a setting is out of range
+   */
+  constructor(options: CircuitBreakerOptions = {}, onStateChange?: CircuitStateListener) {
+    this.failureThreshold = options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    this.minimumRequests = options.minimumRequests ?? DEFAULT_MINIMUM_REQUESTS;
+    this.windowMs = options.windowMs ?? DEFAULT_WINDOW_MS;
+    this.resetTimeout = options.resetTimeout ?? DEFAULT_RESET_TIMEOUT;
+    this.halfOpenRequests = options.halfOpenRequests ?? DEFAULT_HALF_OPEN_REQUESTS;
+    this.onStateChange = onStateChange;
+
+    if (!(this.failureThreshold > 0 && this.failureThreshold <= 1)) {
+      throw new RangeError('failureThreshold must be greater than 0 and at most 1');
+    }
+    if (!(this.minimumRequests >= 1)) {
+      throw new RangeError('minimumRequests must be at least 1');
+    }
+    if (!(this.halfOpenRequests >= 1)) {
+      throw new RangeError('halfOpenRequests must be at least 1');
+    }
+  }
+
+  /**
+   * Current state, moving from open to half-open once the reset timeout has passed
+   */
+  get state(): CircuitState {
+    if (this.currentState === 'open' && Date.now() - this.openedAt >= this.resetTimeout) {
+      this.probes = 0;
+      this.transition('half-open');
+    }
+    return this.currentState;
+  }
+
+  /**
+   * Ask permission to send an attempt
+   *
+   * @returns Function that must be called with the attempt's outcome
+   * @throws CircuitOpenError if the circuit is open or all probe slots are taken
+   */
+  acquire(): SettleFunction {
+    const state = this.state;
+
+    if (state === 'open') {
+      throw new CircuitOpenError(
+        'Circuit breaker is open: the API is failing, request not sent',
+        this.openedAt + this.resetTimeout - Date.now()
+      );
+    }
+
+    if (state === 'half-open') {
+      if (this.probes >= this.halfOpenRequests) {
+        throw new CircuitOpenError('Circuit breaker is half-open: waiting for a probe request', 0);
+      }
+      this.probes++;
+      return this.createSettle(true);
+    }
+
+    return this.createSettle(false);
+  }
+
+  /**
+   * Create a settle function for one attempt
+   */
+  private createSettle(probe: boolean): SettleFunction {
+    let settled = false;
+    return (outcome) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+
+      if (probe) {
+        this.settleProbe(outcome);
+      } else if (this.currentState === 'closed' && outcome !== 'ignored') {
+        this.record(outcome === 'failure');
+      }
+    };
+  }
+
+  /**
+   * Close or re-open the circuit based on a probe outcome
+   */
+  private settleProbe(outcome: CircuitOutcome): void {
+    if (this.currentState !== 'half-open') {
+      return;
+    }
+
+    this.probes--;
+    if (outcome === 'success') {
+      this.samples = [];
+      this.transition('closed');
+    } else if (outcome === 'failure') {
+      this.open();
+    }
+  }
+
+  /**
+   * Add an outcome to the window and open the circuit if the threshold is reached
+   */
+  private record(failed: boolean): void {
+    const now = Date.now();
+    this.samples.push({ at: now, failed });
+    this.samples = this.samples.filter((sample) => now - sample.at < this.windowMs);
+
+    if (this.samples.length >= this.minimumRequests && this.failureRate() >= this.failureThreshold) {
+      this.open();
+    }
+  }
+
+  /**
+   * Open the circuit and start the reset timeout
+   */
+  private open(): void {
+    this.openedAt = Date.now();
+    this.transition('open');
+  }
+
+  /**
+   * Fraction of failed attempts in the window
+   */
+  private failureRate(): number {
+    if (this.samples.length === 0) {
+      return 0;
+    }
+    return this.samples.filter((sample) => sample.failed).length / this.samples.length;
+  }
+
+  /**
+   * Change state and notify the listener
+   */
+  private transition(state: CircuitState): void {
+    const previous = this.currentState;
+    if (previous === state) {
+      return;
+    }
+
+    this.currentState = state;
+    this.onStateChange?.(previous, state, this.failureRate());
+  }
+}
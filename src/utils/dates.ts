@@ -0,0 +1,249 @@
+/**
+ * @file utils/dates.ts
+ * @description Date hydration for timestamp and date-only fields
+ *
+ * With `dates: 'date'`, known timestamp fields in responses (e.g.
+ * `created_at`, `sent_at`) become Date objects and known date-only fields
+ * (e.g. `due_date`) become DateOnly values. The field lists drive both the
+ * runtime conversion and the WithDates type, so the two cannot drift apart.
+ * Request bodies accept Date and DateOnly values in either mode.
+ */
+
+import type { WorkbenchPromise } from './workbench-promise.js';
+import type { PageIterator } from './pagination.js';
+import type { BatchResult } from './batch.js';
+
+/**
+ * Fields holding a full timestamp, hydrated to Date
+ */
+export const TIMESTAMP_FIELDS = [
+  'created_at',
+  'updated_at',
+  'sent_at',
+  'paid_at',
+  'approved_at',
+  'scheduled_start',
+  'scheduled_end',
+  'actual_start',
+  'actual_end',
+  'last_triggered_at',
+  'last_success_at',
+  'last_failure_at',
+  'next_retry_at',
+  'delivered_at',
+  'failed_at',
+  'published_at',
+  'installed_at',
+  'received_at',
+  'refunded_at',
+  'voided_at',
+] as const;
+
+/**
+ * Fields holding a calendar date without a time, hydrated to DateOnly
+ */
+export const DATE_ONLY_FIELDS = [
+  'issue_date',
+  'due_date',
+  'valid_until',
+  'requested_date',
+  'next_contact_date',
+] as const;
+
+export type TimestampField = typeof TIMESTAMP_FIELDS[number];
+export type DateOnlyField = typeof DATE_ONLY_FIELDS[number];
+
+const timestampFields = new Set<string>(TIMESTAMP_FIELDS);
+const dateOnlyFields = new Set<string>(DATE_ONLY_FIELDS);
+
+/**
+ * Leading YYYY-MM-DD of a date or timestamp string
+ */
+const DATE_ONLY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})/;
+
+/**
+ * Calendar date without a time or time zone, e.g. an invoice due date
+ *
+ * Serializes to `YYYY-MM-DD`, so it can be sent back in request bodies.
+ *
+ * @example
+ * ```typescript
+ * const due = DateOnly.parse('2024-02-15');
+ * due.toString();   // '2024-02-15'
+ * due.toDate();     // 2024-02-15T00:00:00.000Z
+ *
+ * await workbench.invoices.update(id, { due_date: new DateOnly(2024, 3, 1) });
+ * ```
+ */
+export class DateOnly {
+  readonly year: number;
+  /** Month of the year, 1-12 */
+  readonly month: number;
+  /** Day of the month, 1-31 */
+  readonly day: number;
+
+  /**
+   * @throws RangeError if the date does not exist
+   */
+  constructor(year: number, month: number, day: number) {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (
+      !Number.isInteger(year) || !Number.isInteger(month) || !Number.isInteger(day) ||
+      date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day
+    ) {
+      throw new RangeError(`Invalid date: ${year}-${month}-${day}`);
+    }
+
+    this.year = year;
+    this.month = month;
+    this.day = day;
+  }
+
+  /**
+   * Parse a `YYYY-MM-DD` string; a time part, if present, is ignored
+   *
+   * @throws RangeError if the string does not start with a valid date
+   */
+  static parse(value: string): DateOnly {
+    const match = DATE_ONLY_PATTERN.exec(value);
+    if (!match) {
+      throw new RangeError(`Invalid date: ${value}`);
+    }
+    return new DateOnly(Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+
+  /**
+   * Calendar date of a Date in UTC
+   */
+  static fromDate(date: Date): DateOnly {
+    return new DateOnly(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+  }
+
+  /**
+   * Midnight UTC on this date
+   */
+  toDate(): Date {
+    return new Date(Date.UTC(this.year, this.month - 1, this.day));
+  }
+
+  /**
+   * Whether both values are the same calendar date
+   */
+  equals(other: DateOnly): boolean {
+    return this.year === other.year && this.month === other.month && this.day === other.day;
+  }
+
+  toString(): string {
+    const pad = (value: number, length: number) => String(value).padStart(length, '0');
+    return `${pad(this.year, 4)}-${pad(this.month, 2)}-${pad(this.day, 2)}`;
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+}
+
+/**
+ * Replace string with To, keeping null and undefined
+ */
+type SwapString<V, To> = V extends string ? To : V;
+
+/**
+ * T with timestamp fields typed as Date and date-only fields as DateOnly
+ *
+ * @example
+ * ```typescript
+ * type HydratedInvoice = WithDates<Invoice>;
+ * // { created_at: Date; due_date: DateOnly | null; ... }
+ * ```
+ */
+export type WithDates<T> =
+  T extends Date | DateOnly | Uint8Array | ReadableStream ? T
+    : T extends (infer U)[] ? WithDates<U>[]
+      : T extends object ? {
+        [K in keyof T]: K extends TimestampField ? SwapString<T[K], Date>
+          : K extends DateOnlyField ? SwapString<T[K], DateOnly>
+            : WithDates<T[K]>;
+      }
+        : T;
+
+/**
+ * Return type of a resource method after hydration
+ */
+type DatedResult<R> =
+  R extends WorkbenchPromise<infer T> ? WorkbenchPromise<WithDates<T>>
+    : R extends PageIterator<infer T> ? PageIterator<WithDates<T>>
+      : R extends Promise<BatchResult<infer I, infer T>> ? Promise<BatchResult<I, WithDates<T>>>
+        : R extends Promise<infer T> ? Promise<WithDates<T>>
+          : R;
+
+/**
+ * Resource member after hydration; nested sub-resources are mapped too
+ */
+type DatedMember<M> =
+  M extends (...args: infer A) => infer R ? (...args: A) => DatedResult<R>
+    : M extends object ? { [K in keyof M]: DatedMember<M[K]> }
+      : M;
+
+/**
+ * Resource type as seen through a client with the given date mode
+ */
+export type DatedResource<R, D extends 'string' | 'date'> =
+  D extends 'date' ? { [K in keyof R]: DatedMember<R[K]> } : R;
+
+/**
+ * Convert known timestamp and date-only fields of a parsed response
+ *
+ * Returns a copy; values that cannot be parsed are left as strings.
+ *
+ * @param value - Parsed JSON response body
+ */
+export function hydrateDates<T>(value: T): WithDates<T> {
+  return hydrate(value, undefined) as WithDates<T>;
+}
+
+/**
+ * Recursive worker for hydrateDates()
+ */
+function hydrate(value: unknown, key: string | undefined): unknown {
+  if (typeof value === 'string' && key !== undefined) {
+    if (timestampFields.has(key)) {
+      const date = new Date(value);
+      return Number.isNaN(date.getTime()) ? value : date;
+    }
+    if (dateOnlyFields.has(key)) {
+      try {
+        return DateOnly.parse(value);
+      } catch {
+        return value;
+      }
+    }
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => hydrate(item, undefined));
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([field, fieldValue]) => [field, hydrate(fieldValue, field)])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * JSON.stringify replacer that sends Dates in date-only fields as `YYYY-MM-DD`
+ *
+ * Date and DateOnly already serialize through toJSON(); this only narrows
+ * Dates in date-only fields to their UTC calendar date.
+ */
+export function serializeDates(this: unknown, key: string, value: unknown): unknown {
+  const original = (this as Record<string, unknown>)[key];
+  if (original instanceof Date && dateOnlyFields.has(key) && !Number.isNaN(original.getTime())) {
+    return DateOnly.fromDate(original).toString();
+  }
+  return value;
+}
@@ -0,0 +1,144 @@
+/**
+ * @file utils/env.ts
+ * @description Reads client configuration from environment variables
+ *
+ * Used by WorkbenchClient.fromEnv(). Variable names are the prefix (default
+ * WORKBENCH) joined to the setting name with an underscore. Empty variables
+ * are treated as unset.
+ *
+ * | Variable                      | Setting           |
+ * |-------------------------------|-------------------|
+ * | `WORKBENCH_API_KEY`           | apiKey            |
+ * | `WORKBENCH_ACCESS_TOKEN`      | accessToken       |
+ * | `WORKBENCH_REFRESH_TOKEN`     | refreshToken      |
+ * | `WORKBENCH_CLIENT_ID`         | oauthClient.clientId |
+ * | `WORKBENCH_CLIENT_SECRET`     | oauthClient.clientSecret |
+ * | `WORKBENCH_BASE_URL`          | baseUrl           |
+ * | `WORKBENCH_TIMEOUT`           | timeout (ms)      |
+ * | `WORKBENCH_MAX_RETRIES`       | maxRetries        |
+ * | `WORKBENCH_REQUIRE_TEST_MODE` | requireTestMode   |
+ */
+
+import type { WorkbenchConfig } from '../types/index.js';
+
+/**
+ * Default environment variable prefix
+ */
+export const DEFAULT_ENV_PREFIX = 'WORKBENCH';
+
+/**
+ * Largest timeout in ms that setTimeout honours; longer delays fire after 1ms
+ */
+export const MAX_TIMEOUT = 2 ** 31 - 1;
+
+/**
+ * Environment variable source
+ */
+export type Env = Record<string, string | undefined>;
+
+/**
+ * Parse an integer variable, rejecting anything that is not a whole number
+ */
+function parseInteger(name: string, value: string, min: number, max = Number.MAX_SAFE_INTEGER): number {
+  const parsed = Number(value);
+  if (!/^\d+$/.test(value.trim()) || !Number.isSafeInteger(parsed) || parsed < min) {
+    throw new Error(`${name} must be an integer of at least ${min} (got "${value}")`);
+  }
+  if (parsed > max) {
+    throw new Error(`${name} must be at most ${max} (got "${value}")`);
+  }
+  return parsed;
+}
+
+/**
+ * Parse a boolean variable (true/false/1/0/yes/no)
+ */
+function parseBoolean(name: string, value: string): boolean {
+  const normalized = value.trim().toLowerCase();
+  if (['true', '1', 'yes'].includes(normalized)) {
+    return true;
+  }
+  if (['false', '0', 'no'].includes(normalized)) {
+    return false;
+  }
+  throw new Error(`${name} must be true or false (got "${value}")`);
+}
+
+/**
+ * Build client configuration from environment variables
+ *
+ * @param prefix - Variable name prefix (default: WORKBENCH)
+ * @param env - Variables to read (default: process.env)
+ * @param credentials - Read and require credential variables (default: true);
+ *   pass false when the caller supplies credentials itself
+ * @returns Client configuration with only the variables that are set
+ * @throws Error if no credentials are set or a value is invalid
+ *
+ * @example
+ * ```typescript
+ * // With WORKBENCH_API_KEY=wbk_test_xxx and WORKBENCH_MAX_RETRIES=0
+ * readEnvConfig(); // { apiKey: 'wbk_test_xxx', maxRetries: 0 }
+ * ```
+ */
+export function readEnvConfig(
+  prefix: string = DEFAULT_ENV_PREFIX,
+  env: Env = process.env,
+  credentials = true
+): WorkbenchConfig {
+  const base = prefix.replace(/_+$/, '');
+  const name = (key: string) => `${base}_${key}`;
+  const read = (key: string): string | undefined => env[name(key)] || undefined;
+
+  const config: WorkbenchConfig = {};
+
+  const apiKey = credentials ? read('API_KEY') : undefined;
+  const accessToken = credentials ? read('ACCESS_TOKEN') : undefined;
+  const refreshToken = credentials ? read('REFRESH_TOKEN') : undefined;
+
+  if (credentials && !apiKey && !accessToken && !refreshToken) {
+    throw new Error(`Missing credentials: set ${name('API_KEY')} or ${name('ACCESS_TOKEN')}`);
+  }
+
+  if (apiKey) {
+    config.apiKey = apiKey;
+  }
+  if (accessToken) {
+    config.accessToken = accessToken;
+  }
+
+  if (refreshToken) {
+    const clientId = read('CLIENT_ID');
+    if (!clientId) {
+      throw new Error(`${name('CLIENT_ID')} is required when ${name('REFRESH_TOKEN')} is set`);
+    }
+    config.refreshToken = refreshToken;
+    config.oauthClient = { clientId, clientSecret: read('CLIENT_SECRET') };
+  }
+
+  const baseUrl = read('BASE_URL');
+  if (baseUrl) {
+    try {
+      new URL(baseUrl);
+    } catch {
+      throw new Error(`${name('BASE_URL')} must be a valid URL (got "${baseUrl}")`);
+    }
+    config.baseUrl = baseUrl;
+  }
+
+  const timeout = read('TIMEOUT');
+  if (timeout) {
+    config.timeout = parseInteger(name('TIMEOUT'), timeout, 1, MAX_TIMEOUT);
+  }
+
+  const maxRetries = read('MAX_RETRIES');
+  if (maxRetries) {
+    config.maxRetries = parseInteger(name('MAX_RETRIES'), maxRetries, 0);
+  }
+
+  const requireTestMode = read('REQUIRE_TEST_MODE');
+  if (requireTestMode) {
+    config.requireTestMode = parseBoolean(name('REQUIRE_TEST_MODE'), requireTestMode);
+  }
+
+  return config;
+}
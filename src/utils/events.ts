@@ -0,0 +1,77 @@
+/**
+ * @file utils/events.ts
+ * @description Minimal typed event emitter used by the Workbench client
+ *
+ * Kept dependency-free so the SDK does not rely on Node's `events` module
+ * and listeners get full type inference for each event payload.
+ */
+
+/**
+ * Listener for a single event payload
+ */
+export type EventListener<T> = (payload: T) => void;
+
+/**
+ * Typed event emitter keyed by an event map
+ *
+ * @example
+ * ```typescript
+ * const emitter = new TypedEventEmitter<{ ready: { at: Date } }>();
+ * const unsubscribe = emitter.on('ready', ({ at }) => console.log(at));
+ * emitter.emit('ready', { at: new Date() });
+ * unsubscribe();
+ * ```
+ */
+export class TypedEventEmitter<Events extends object> {
+  private readonly listeners = new Map<keyof Events, Set<EventListener<never>>>();
+
+  /**
+   * Register a listener for an event
+   *
+   * @returns Function that removes the listener
+   */
+  on<E extends keyof Events>(event: E, listener: EventListener<Events[E]>): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener as EventListener<never>);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Remove a previously registered listener
+   */
+  off<E extends keyof Events>(event: E, listener: EventListener<Events[E]>): void {
+    this.listeners.get(event)?.delete(listener as EventListener<never>);
+  }
+
+  /**
+   * Check whether an event has any listeners
+   */
+  hasListeners(event: keyof Events): boolean {
+    return (this.listeners.get(event)?.size ?? 0) > 0;
+  }
+
+  /**
+   * Emit an event to all registered listeners
+   *
+   * Listener errors are swallowed so that a faulty listener can never
+   * break an in-flight API request.
+   */
+  emit<E extends keyof Events>(event: E, payload: Events[E]): void {
+    const set = this.listeners.get(event);
+    if (!set) {
+      return;
+    }
+
+    for (const listener of [...set]) {
+      try {
+        (listener as EventListener<Events[E]>)(payload);
+      } catch {
+        // Ignore listener errors
+      }
+    }
+  }
+}
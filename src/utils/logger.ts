@@ -0,0 +1,125 @@
+/**
+ * @file utils/logger.ts
+ * @description Log level handling and secret redaction for request logging
+ *
+ * Everything passed to a logger goes through `redact()` first so API keys,
+ * access tokens and webhook secrets never end up in log output.
+ */
+
+import type { Logger, LogLevel } from '../types/index.js';
+
+/**
+ * Placeholder written in place of redacted values
+ */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Numeric severity of each level, used for threshold comparisons
+ */
+const LOG_LEVEL_SEVERITY: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  off: Infinity,
+};
+
+/**
+ * Keys whose values are always redacted (compared case-insensitively)
+ */
+const SENSITIVE_KEYS: ReadonlySet<string> = new Set([
+  'authorization',
+  'apikey',
+  'api_key',
+  'secret',
+  'client_secret',
+  'password',
+  'access_token',
+  'access_token_prefix',
+  'accesstoken',
+  'refresh_token',
+  'refreshtoken',
+  'code_verifier',
+  'authorization_code',
+]);
+
+/**
+ * Matches Workbench API keys embedded in any string
+ */
+const API_KEY_PATTERN = /wbk_(live|test)_[A-Za-z0-9_-]+/g;
+
+/**
+ * Resolve the effective log level
+ *
+ * @param level - Level from client configuration
+ * @param hasLogger - Whether a custom logger was provided
+ * @returns Effective log level
+ */
+export function resolveLogLevel(level: LogLevel | undefined, hasLogger: boolean): LogLevel {
+  if (level) {
+    return level;
+  }
+
+  const env = process.env.WORKBENCH_LOG?.toLowerCase();
+  if (env && env in LOG_LEVEL_SEVERITY) {
+    return env as LogLevel;
+  }
+
+  return hasLogger ? 'debug' : 'off';
+}
+
+/**
+ * Check whether a message at `level` passes the `threshold`
+ *
+ * @param level - Level of the message
+ * @param threshold - Minimum level to log
+ */
+export function isLevelEnabled(level: Exclude<LogLevel, 'off'>, threshold: LogLevel): boolean {
+  return LOG_LEVEL_SEVERITY[level] >= LOG_LEVEL_SEVERITY[threshold];
+}
+
+/**
+ * Logger that writes to the console, used when WORKBENCH_LOG is set
+ * without a custom logger
+ */
+export const consoleLogger: Logger = {
+  debug: (message, context) => console.debug(`[workbench] ${message}`, context ?? ''),
+  info: (message, context) => console.info(`[workbench] ${message}`, context ?? ''),
+  warn: (message, context) => console.warn(`[workbench] ${message}`, context ?? ''),
+  error: (message, context) => console.error(`[workbench] ${message}`, context ?? ''),
+};
+
+/**
+ * Return a copy of a value with secrets replaced by `[REDACTED]`
+ *
+ * Redacts values under sensitive keys (Authorization, api_key, secret,
+ * access_token_prefix, ...) at any depth, and API keys inside strings.
+ *
+ * @param value - Value to redact
+ * @returns Redacted copy
+ *
+ * @example
+ * ```typescript
+ * redact({ url: 'https://example.com/hook', secret: 'whsec_xxx' });
+ * // { url: 'https://example.com/hook', secret: '[REDACTED]' }
+ * ```
+ */
+export function redact(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.replace(API_KEY_PATTERN, REDACTED);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      result[key] = SENSITIVE_KEYS.has(key.toLowerCase()) ? REDACTED : redact(entry);
+    }
+    return result;
+  }
+
+  return value;
+}
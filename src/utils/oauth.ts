@@ -0,0 +1,369 @@
+/**
+ * @file utils/oauth.ts
+ * @description OAuth 2.0 authorization-code flow with PKCE for Workbench integrations
+ *
+ * Third-party apps send the user to the Workbench consent screen, receive an
+ * authorization code on their redirect URI, and exchange it for an access
+ * token. This module implements each step: PKCE verifier/challenge
+ * generation, building the authorization URL, validating the callback, and
+ * exchanging or refreshing tokens.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+
+import { WorkbenchError } from '../errors.js';
+import type { FetchFunction } from '../types/index.js';
+
+/**
+ * Default Workbench OAuth endpoints
+ */
+const DEFAULT_AUTHORIZATION_URL = 'https://app.tryworkbench.app/oauth/authorize';
+const DEFAULT_TOKEN_URL = 'https://api.tryworkbench.app/oauth/token';
+
+/**
+ * PKCE code verifier length bounds (RFC 7636 section 4.1)
+ */
+const MIN_VERIFIER_LENGTH = 43;
+const MAX_VERIFIER_LENGTH = 128;
+
+/**
+ * OAuth application configuration
+ */
+export interface OAuthConfig {
+  /** OAuth client ID of your integration */
+  clientId: string;
+  /** OAuth client secret (omit for public clients using PKCE only) */
+  clientSecret?: string;
+  /** Redirect URI registered for your integration */
+  redirectUri: string;
+  /** Authorization endpoint (defaults to the Workbench consent screen) */
+  authorizationUrl?: string;
+  /** Token endpoint (defaults to https://api.tryworkbench.app/oauth/token) */
+  tokenUrl?: string;
+  /** Custom fetch implementation (defaults to the global fetch) */
+  fetch?: FetchFunction;
+}
+
+/**
+ * OAuth client settings needed for token refresh (no redirect involved)
+ */
+export type OAuthClientConfig = Omit<OAuthConfig, 'redirectUri'>;
+
+/**
+ * Options for building an authorization URL
+ */
+export interface AuthorizationUrlOptions {
+  /** Scopes to request, e.g. ['clients:read', 'invoices:write'] */
+  scopes: string[];
+  /** Opaque value echoed back on the callback to prevent CSRF */
+  state: string;
+  /** PKCE code challenge derived from the code verifier */
+  codeChallenge: string;
+}
+
+/**
+ * Authorization request ready to send the user to
+ */
+export interface AuthorizationRequest {
+  /** URL of the consent screen */
+  url: string;
+  /** State to store in the user's session and verify on callback */
+  state: string;
+  /** PKCE code verifier to store in the user's session for the code exchange */
+  codeVerifier: string;
+}
+
+/**
+ * Tokens issued by the token endpoint
+ */
+export interface OAuthTokens {
+  /** Access token, usable as `new WorkbenchClient({ accessToken })` */
+  accessToken: string;
+  /** Refresh token for obtaining a new access token (if issued) */
+  refreshToken?: string;
+  /** Token type (normally "Bearer") */
+  tokenType: string;
+  /** Access token lifetime in seconds (if reported) */
+  expiresIn?: number;
+  /** When the access token expires (if reported) */
+  expiresAt?: Date;
+  /** Scopes granted to the token */
+  scopes: string[];
+}
+
+/**
+ * Error thrown when an OAuth step fails
+ *
+ * `code` is the OAuth error code (e.g. `invalid_grant`, `access_denied`)
+ * or `state_mismatch` when the callback state does not match.
+ */
+export class OAuthError extends WorkbenchError {
+  constructor(message: string, code: string, status: number = 0) {
+    super(message, status, code);
+    this.name = 'OAuthError';
+  }
+}
+
+/**
+ * Encode bytes as base64url without padding
+ */
+function base64Url(buffer: Buffer): string {
+  return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Generate a random PKCE code verifier
+ *
+ * @param length - Verifier length between 43 and 128 (default: 64)
+ * @returns Code verifier using unreserved URL characters
+ * @throws RangeError if the length is out of bounds
+ *
+ * @example
+ * ```typescript
+ * const codeVerifier = generateCodeVerifier();
+ * ```
+ */
+export function generateCodeVerifier(length: number = 64): string {
+  if (length < MIN_VERIFIER_LENGTH || length > MAX_VERIFIER_LENGTH) {
+    throw new RangeError(
+      `Code verifier length must be between ${MIN_VERIFIER_LENGTH} and ${MAX_VERIFIER_LENGTH}`
+    );
+  }
+
+  return base64Url(randomBytes(length)).slice(0, length);
+}
+
+/**
+ * Derive the S256 PKCE code challenge for a code verifier
+ *
+ * @param codeVerifier - Code verifier from generateCodeVerifier()
+ * @returns Base64url-encoded SHA-256 hash of the verifier
+ *
+ * @example
+ * ```typescript
+ * const codeChallenge = generateCodeChallenge(codeVerifier);
+ * ```
+ */
+export function generateCodeChallenge(codeVerifier: string): string {
+  return base64Url(createHash('sha256').update(codeVerifier).digest());
+}
+
+/**
+ * Generate a random state value for CSRF protection
+ *
+ * @returns URL-safe random string
+ */
+export function generateState(): string {
+  return base64Url(randomBytes(32));
+}
+
+/**
+ * Build the URL of the Workbench consent screen
+ *
+ * @param config - OAuth application configuration
+ * @param options - Scopes, state and code challenge
+ * @returns Authorization URL
+ *
+ * @example
+ * ```typescript
+ * const url = buildAuthorizationUrl(oauthConfig, {
+ *   scopes: ['clients:read'],
+ *   state,
+ *   codeChallenge: generateCodeChallenge(codeVerifier)
+ * });
+ * ```
+ */
+export function buildAuthorizationUrl(config: OAuthConfig, options: AuthorizationUrlOptions): string {
+  const url = new URL(config.authorizationUrl ?? DEFAULT_AUTHORIZATION_URL);
+
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', config.clientId);
+  url.searchParams.set('redirect_uri', config.redirectUri);
+  url.searchParams.set('scope', options.scopes.join(' '));
+  url.searchParams.set('state', options.state);
+  url.searchParams.set('code_challenge', options.codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+
+  return url.toString();
+}
+
+/**
+ * Start an authorization: generate state and PKCE values and build the URL
+ *
+ * Store `state` and `codeVerifier` in the user's session, then redirect the
+ * user to `url`.
+ *
+ * @param config - OAuth application configuration
+ * @param scopes - Scopes to request
+ * @returns Authorization URL with the state and code verifier used
+ *
+ * @example
+ * ```typescript
+ * const { url, state, codeVerifier } = createAuthorizationRequest(oauthConfig, ['clients:read']);
+ * req.session.oauth = { state, codeVerifier };
+ * res.redirect(url);
+ * ```
+ */
+export function createAuthorizationRequest(config: OAuthConfig, scopes: string[]): AuthorizationRequest {
+  const state = generateState();
+  const codeVerifier = generateCodeVerifier();
+  const url = buildAuthorizationUrl(config, {
+    scopes,
+    state,
+    codeChallenge: generateCodeChallenge(codeVerifier),
+  });
+
+  return { url, state, codeVerifier };
+}
+
+/**
+ * Check that the state returned on the callback matches the one sent
+ *
+ * @param expected - State stored when the authorization started
+ * @param received - State from the callback query string
+ * @throws OAuthError if the states do not match
+ */
+export function verifyState(expected: string, received: string | null | undefined): void {
+  const expectedBuffer = Buffer.from(expected);
+  const receivedBuffer = Buffer.from(received ?? '');
+
+  if (
+    !expected ||
+    expectedBuffer.length !== receivedBuffer.length ||
+    !timingSafeEqual(expectedBuffer, receivedBuffer)
+  ) {
+    throw new OAuthError('OAuth state does not match', 'state_mismatch');
+  }
+}
+
+/**
+ * Validate the redirect callback and extract the authorization code
+ *
+ * @param callbackUrl - Full callback URL, or its query string
+ * @param expectedState - State stored when the authorization started
+ * @returns Authorization code
+ * @throws OAuthError if the user denied access or the state does not match
+ *
+ * @example
+ * ```typescript
+ * const code = parseAuthorizationCallback(req.url, req.session.oauth.state);
+ * ```
+ */
+export function parseAuthorizationCallback(callbackUrl: string, expectedState: string): string {
+  const query = callbackUrl.includes('?') ? callbackUrl.slice(callbackUrl.indexOf('?') + 1) : callbackUrl;
+  const params = new URLSearchParams(query);
+
+  verifyState(expectedState, params.get('state'));
+
+  const error = params.get('error');
+  if (error) {
+    throw new OAuthError(params.get('error_description') || 'Authorization failed', error);
+  }
+
+  const code = params.get('code');
+  if (!code) {
+    throw new OAuthError('Callback is missing the authorization code', 'invalid_request');
+  }
+
+  return code;
+}
+
+/**
+ * Send a grant to the token endpoint
+ */
+async function requestToken(config: OAuthClientConfig, params: Record<string, string>): Promise<OAuthTokens> {
+  const fetchFn = config.fetch ?? ((url, init) => fetch(url, init));
+  const body = new URLSearchParams({ client_id: config.clientId, ...params });
+  if (config.clientSecret) {
+    body.set('client_secret', config.clientSecret);
+  }
+
+  let response: Response;
+  try {
+    response = await fetchFn(config.tokenUrl ?? DEFAULT_TOKEN_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Accept': 'application/json',
+      },
+      body: body.toString(),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new OAuthError(`Token request failed: ${message}`, 'NETWORK_ERROR');
+  }
+
+  let data: Record<string, unknown>;
+  try {
+    data = await response.json() as Record<string, unknown>;
+  } catch {
+    throw new OAuthError('Invalid JSON response from token endpoint', 'INVALID_RESPONSE', response.status);
+  }
+
+  if (!response.ok || typeof data.access_token !== 'string') {
+    throw new OAuthError(
+      (data.error_description as string) || 'Token request failed',
+      (data.error as string) || 'invalid_response',
+      response.status
+    );
+  }
+
+  const expiresIn = typeof data.expires_in === 'number' ? data.expires_in : undefined;
+
+  return {
+    accessToken: data.access_token,
+    refreshToken: typeof data.refresh_token === 'string' ? data.refresh_token : undefined,
+    tokenType: typeof data.token_type === 'string' ? data.token_type : 'Bearer',
+    expiresIn,
+    expiresAt: expiresIn !== undefined ? new Date(Date.now() + expiresIn * 1000) : undefined,
+    scopes: typeof data.scope === 'string' ? data.scope.split(' ').filter(Boolean) : [],
+  };
+}
+
+/**
+ * Exchange an authorization code for access and refresh tokens
+ *
+ * @param config - OAuth application configuration
+ * @param code - Authorization code from the callback
+ * @param codeVerifier - PKCE code verifier stored when the authorization started
+ * @returns Issued tokens
+ * @throws OAuthError if the token endpoint rejects the code
+ *
+ * @example
+ * ```typescript
+ * const tokens = await exchangeAuthorizationCode(oauthConfig, code, req.session.oauth.codeVerifier);
+ * const workbench = new WorkbenchClient({ accessToken: tokens.accessToken });
+ * ```
+ */
+export function exchangeAuthorizationCode(
+  config: OAuthConfig,
+  code: string,
+  codeVerifier: string
+): Promise<OAuthTokens> {
+  return requestToken(config, {
+    grant_type: 'authorization_code',
+    code,
+    code_verifier: codeVerifier,
+    redirect_uri: config.redirectUri,
+  });
+}
+
+/**
+ * Obtain a new access token using a refresh token
+ *
+ * @param config - OAuth client settings (redirectUri is not needed)
+ * @param refreshToken - Refresh token from a previous exchange
+ * @returns Issued tokens (the refresh token may be rotated)
+ * @throws OAuthError if the refresh token is invalid or revoked
+ *
+ * @example
+ * ```typescript
+ * const tokens = await refreshAccessToken(oauthConfig, storedRefreshToken);
+ * ```
+ */
+export function refreshAccessToken(config: OAuthClientConfig, refreshToken: string): Promise<OAuthTokens> {
+  return requestToken(config, {
+    grant_type: 'refresh_token',
+    refresh_token: refreshToken,
+  });
+}
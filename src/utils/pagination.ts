@@ -0,0 +1,144 @@
+/**
+ * @file utils/pagination.ts
+ * @description Auto-pagination helpers for list endpoints
+ *
+ * List endpoints return one page at a time. PageIterator walks every page
+ * of a list request, following either page-based or offset-based
+ * pagination depending on which fields the API returns.
+ */
+
+import type { ListResponse, Pagination } from '../types/index.js';
+
+/**
+ * Pagination parameters that are overridden when requesting the next page
+ */
+export interface PageParams {
+  /** Page number (page-based) */
+  page?: number;
+  /** Offset (offset-based) */
+  offset?: number;
+  /** Limit (offset-based) */
+  limit?: number;
+}
+
+/**
+ * Options for collecting items into an array
+ */
+export interface ToArrayOptions {
+  /** Maximum number of items to collect (defaults to all items) */
+  max?: number;
+}
+
+/**
+ * Function that fetches a single page given pagination overrides
+ */
+export type PageFetcher<T> = (params: PageParams) => Promise<ListResponse<T>>;
+
+/**
+ * Compute the pagination parameters for the page after `current`
+ *
+ * Offset-based responses (with `offset` or `limit`) advance the offset by the
+ * number of items received; page-based responses advance the page number.
+ *
+ * @returns Parameters for the next page, or null if there are no more pages
+ */
+export function getNextPageParams(
+  pagination: Pagination | undefined,
+  received: number,
+  current: PageParams
+): PageParams | null {
+  if (!pagination || !pagination.has_more || received === 0) {
+    return null;
+  }
+
+  if (pagination.offset !== undefined || pagination.limit !== undefined) {
+    return {
+      offset: (pagination.offset ?? current.offset ?? 0) + received,
+      limit: pagination.limit ?? current.limit,
+    };
+  }
+
+  return { page: (pagination.page ?? current.page ?? 1) + 1 };
+}
+
+/**
+ * Async iterator over every item of a paginated list
+ *
+ * Pages are fetched lazily as iteration proceeds, so breaking out of a
+ * `for await` loop stops further requests.
+ *
+ * @example
+ * ```typescript
+ * for await (const client of workbench.clients.listAll({ status: 'active' })) {
+ *   console.log(client.email);
+ * }
+ *
+ * // Or collect into an array
+ * const invoices = await workbench.invoices.listAll({ status: 'sent' }).toArray({ max: 500 });
+ * ```
+ */
+export class PageIterator<T> implements AsyncIterable<T> {
+  private readonly fetchPage: PageFetcher<T>;
+  private readonly start: PageParams;
+
+  /**
+   * @param fetchPage - Fetches a page with the given pagination overrides
+   * @param start - Pagination parameters of the first page
+   */
+  constructor(fetchPage: PageFetcher<T>, start: PageParams = {}) {
+    this.fetchPage = fetchPage;
+    this.start = { page: start.page, offset: start.offset, limit: start.limit };
+  }
+
+  /**
+   * Iterate over whole pages rather than individual items
+   *
+   * @example
+   * ```typescript
+   * for await (const page of workbench.jobs.listAll().pages()) {
+   *   console.log(`Fetched ${page.data.length} of ${page.pagination.total}`);
+   * }
+   * ```
+   */
+  async *pages(): AsyncGenerator<ListResponse<T>, void, undefined> {
+    let params: PageParams | null = this.start;
+
+    while (params) {
+      const response: ListResponse<T> = await this.fetchPage(params);
+      yield response;
+      params = getNextPageParams(response.pagination, response.data.length, params);
+    }
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+    for await (const page of this.pages()) {
+      for (const item of page.data) {
+        yield item;
+      }
+    }
+  }
+
+  /**
+   * Collect items from every page into an array
+   *
+   * @param options - Collection options
+   * @returns All items, or the first `max` items
+   */
+  async toArray(options: ToArrayOptions = {}): Promise<T[]> {
+    const { max } = options;
+    const items: T[] = [];
+
+    if (max !== undefined && max <= 0) {
+      return items;
+    }
+
+    for await (const item of this) {
+      items.push(item);
+      if (max !== undefined && items.length >= max) {
+        break;
+      }
+    }
+
+    return items;
+  }
+}
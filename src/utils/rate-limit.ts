@@ -0,0 +1,84 @@
+/**
+ * @file utils/rate-limit.ts
+ * @description Helpers for reading rate-limit headers from API responses
+ *
+ * The Workbench API reports quota usage through `X-RateLimit-*` headers and
+ * tells clients how long to back off with `Retry-After` on 429 responses.
+ */
+
+import type { RateLimitInfo } from '../types/index.js';
+
+/**
+ * Values above this are treated as Unix timestamps rather than a number of
+ * seconds until the window resets
+ */
+const EPOCH_SECONDS_THRESHOLD = 1_000_000_000;
+
+/**
+ * Parse a header value as a finite, non-negative number
+ */
+function parseNumber(value: string | null): number | null {
+  if (value === null || value.trim() === '') {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+}
+
+/**
+ * Parse a Retry-After header value
+ *
+ * Supports both delay-seconds (`Retry-After: 30`) and HTTP-date
+ * (`Retry-After: Wed, 21 Oct 2026 07:28:00 GMT`) forms.
+ *
+ * @param value - Retry-After header value
+ * @param now - Current time in milliseconds (defaults to Date.now())
+ * @returns Delay in milliseconds, or null if the header is missing or invalid
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  const seconds = parseNumber(value);
+  if (seconds !== null) {
+    return seconds * 1000;
+  }
+
+  if (value) {
+    const date = Date.parse(value);
+    if (!isNaN(date)) {
+      return Math.max(0, date - now);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Read rate-limit state from response headers
+ *
+ * @param headers - Response headers
+ * @param now - Current time in milliseconds (defaults to Date.now())
+ * @returns Rate-limit state, or null if the response carries no limit headers
+ */
+export function parseRateLimitHeaders(headers: Headers, now: number = Date.now()): RateLimitInfo | null {
+  const limit = parseNumber(headers.get('x-ratelimit-limit'));
+  const remaining = parseNumber(headers.get('x-ratelimit-remaining'));
+
+  if (limit === null || remaining === null) {
+    return null;
+  }
+
+  const reset = parseNumber(headers.get('x-ratelimit-reset'));
+  let resetAt: Date | null = null;
+  if (reset !== null) {
+    resetAt = reset > EPOCH_SECONDS_THRESHOLD
+      ? new Date(reset * 1000)
+      : new Date(now + reset * 1000);
+  }
+
+  return {
+    limit,
+    remaining,
+    resetAt,
+    retryAfter: parseRetryAfter(headers.get('retry-after'), now),
+    updatedAt: new Date(now),
+  };
+}
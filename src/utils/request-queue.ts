@@ -0,0 +1,214 @@
+/**
+ * @file utils/request-queue.ts
+ * @description Client-side concurrency limit and rate limiter for API requests
+ *
+ * Every HTTP attempt takes a slot from the queue before it is sent and
+ * returns it when the response has been read. Slots are limited by a
+ * maximum number of in-flight requests and by a token bucket refilled at
+ * `requestsPerSecond`. Waiting requests are served by priority lane, then
+ * in arrival order.
+ */
+
+import { WorkbenchError } from '../errors.js';
+import type { QueueStats, RequestPriority } from '../types/index.js';
+
+/**
+ * Lanes in the order they are served
+ */
+const PRIORITIES: readonly RequestPriority[] = ['high', 'normal', 'low'];
+
+/**
+ * Returns a slot to the queue
+ */
+export type ReleaseFunction = () => void;
+
+/**
+ * Options for the request queue
+ */
+export interface RequestQueueOptions {
+  /** Maximum requests in flight at once (default: unlimited) */
+  maxConcurrency?: number;
+  /** Sustained request rate; bursts of up to this many are allowed (default: unlimited) */
+  requestsPerSecond?: number;
+}
+
+/**
+ * Request waiting for a slot
+ */
+interface Waiter {
+  resolve: (release: ReleaseFunction) => void;
+  cleanup: () => void;
+}
+
+/**
+ * Priority queue that limits concurrency and request rate
+ *
+ * @example
+ * ```typescript
+ * const queue = new RequestQueue({ maxConcurrency: 5, requestsPerSecond: 10 });
+ * const release = await queue.acquire('low');
+ * try {
+ *   await send();
+ * } finally {
+ *   release();
+ * }
+ * ```
+ */
+export class RequestQueue {
+  private readonly maxConcurrency: number;
+  private readonly requestsPerSecond: number;
+  private readonly lanes: Record<RequestPriority, Waiter[]> = { high: [], normal: [], low: [] };
+  private active = 0;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private drainTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * @param options - Concurrency and rate limits
+   * @throws RangeError if a limit is not a positive number
+   */
+  constructor(options: RequestQueueOptions = {}) {
+    const { maxConcurrency = Infinity, requestsPerSecond = Infinity } = options;
+
+    if (!(maxConcurrency >= 1)) {
+      throw new RangeError('maxConcurrency must be at least 1');
+    }
+    if (!(requestsPerSecond > 0)) {
+      throw new RangeError('requestsPerSecond must be greater than 0');
+    }
+
+    this.maxConcurrency = maxConcurrency;
+    this.requestsPerSecond = requestsPerSecond;
+    this.tokens = Math.max(1, requestsPerSecond);
+  }
+
+  /**
+   * Current queue depth and limits
+   */
+  get stats(): QueueStats {
+    return {
+      active: this.active,
+      queued: PRIORITIES.reduce((total, priority) => total + this.lanes[priority].length, 0),
+      queuedByPriority: {
+        high: this.lanes.high.length,
+        normal: this.lanes.normal.length,
+        low: this.lanes.low.length,
+      },
+      maxConcurrency: this.maxConcurrency,
+      requestsPerSecond: this.requestsPerSecond,
+    };
+  }
+
+  /**
+   * Wait for a slot
+   *
+   * Returns the release function synchronously when a slot is free and
+   * nothing is waiting, so unlimited clients add no latency.
+   *
+   * @param priority - Lane to wait in (default: normal)
+   * @param signal - Abort signal that removes the request from the queue
+   * @returns Function that must be called once the request completes
+   * @throws WorkbenchError with code ABORTED if the signal fires while waiting
+   */
+  acquire(priority: RequestPriority = 'normal', signal?: AbortSignal): ReleaseFunction | Promise<ReleaseFunction> {
+    if (this.stats.queued === 0 && this.tryTake()) {
+      return this.createRelease();
+    }
+
+    return new Promise<ReleaseFunction>((resolve, reject) => {
+      const onAbort = () => {
+        const lane = this.lanes[priority];
+        lane.splice(lane.indexOf(waiter), 1);
+        reject(new WorkbenchError('Request aborted', 0, 'ABORTED'));
+      };
+
+      const waiter: Waiter = {
+        resolve,
+        cleanup: () => signal?.removeEventListener('abort', onAbort),
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.lanes[priority].push(waiter);
+      this.drain();
+    });
+  }
+
+  /**
+   * Take a concurrency slot and a rate token if both are available
+   */
+  private tryTake(): boolean {
+    if (this.active >= this.maxConcurrency) {
+      return false;
+    }
+
+    if (this.requestsPerSecond !== Infinity) {
+      this.refill();
+      if (this.tokens < 1) {
+        return false;
+      }
+      this.tokens -= 1;
+    }
+
+    this.active++;
+    return true;
+  }
+
+  /**
+   * Add the tokens accrued since the last refill
+   */
+  private refill(): void {
+    const now = Date.now();
+    const capacity = Math.max(1, this.requestsPerSecond);
+    this.tokens = Math.min(capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.requestsPerSecond);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Hand out slots to waiting requests, highest priority first
+   */
+  private drain(): void {
+    while (this.stats.queued > 0) {
+      if (!this.tryTake()) {
+        // Concurrency-bound waiters are woken by release(); rate-bound ones by a timer
+        if (this.active < this.maxConcurrency) {
+          this.scheduleDrain();
+        }
+        return;
+      }
+
+      const lane = PRIORITIES.find((priority) => this.lanes[priority].length > 0)!;
+      const waiter = this.lanes[lane].shift()!;
+      waiter.cleanup();
+      waiter.resolve(this.createRelease());
+    }
+  }
+
+  /**
+   * Retry draining once the next rate token is available
+   */
+  private scheduleDrain(): void {
+    if (this.drainTimer) {
+      return;
+    }
+
+    const delay = Math.ceil(((1 - this.tokens) / this.requestsPerSecond) * 1000);
+    this.drainTimer = setTimeout(() => {
+      this.drainTimer = null;
+      this.drain();
+    }, delay);
+  }
+
+  /**
+   * Create a release function that returns the slot exactly once
+   */
+  private createRelease(): ReleaseFunction {
+    let released = false;
+    return () => {
+      if (!released) {
+        released = true;
+        this.active--;
+        this.drain();
+      }
+    };
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * @file utils/status-transitions.ts
+ * @description Client-side checks for record status transitions
+ *
+ * Workflow methods such as `quotes.approve()` and `invoices.void()` read the
+ * record first and check its status here, so an illegal change fails with
+ * InvalidStateError before any update is sent.
+ */
+
+import { InvalidStateError } from '../errors.js';
+
+/**
+ * Statuses a record may move to from each status
+ */
+export type StatusTransitions<S extends string> = Record<S, readonly S[]>;
+
+/**
+ * Statuses from which a record may move to the target status
+ */
+export function allowedFrom<S extends string>(transitions: StatusTransitions<S>, target: S): S[] {
+  return (Object.keys(transitions) as S[]).filter((status) => transitions[status].includes(target));
+}
+
+/**
+ * Throw unless the record is in one of the allowed statuses
+ *
+ * @param label - Record description for the error message, e.g. 'Invoice INV-001'
+ * @param current - Status the record is in
+ * @param allowed - Statuses from which the operation is allowed
+ * @param action - Past participle describing the operation, e.g. 'voided'
+ * @throws InvalidStateError if the current status is not allowed
+ */
+export function assertStatus(label: string, current: string, allowed: readonly string[], action: string): void {
+  if (allowed.includes(current)) {
+    return;
+  }
+
+  const quoted = allowed.map((status) => `'${status}'`);
+  const expected = quoted.length > 1 ? `${quoted.slice(0, -1).join(', ')} or ${quoted[quoted.length - 1]}` : quoted[0];
+
+  throw new InvalidStateError(
+    `${label} cannot be ${action}: status is '${current}', expected ${expected}`,
+    current,
+    allowed
+  );
+}
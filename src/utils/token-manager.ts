@@ -0,0 +1,139 @@
+/**
+ * @file utils/token-manager.ts
+ * @description Resolves and refreshes the credentials sent with each request
+ *
+ * API keys are static. OAuth access tokens can expire, so they may come from
+ * a caller-supplied token provider or be refreshed with a refresh token.
+ * Refreshes are single-flight: concurrent requests that hit a 401 wait on
+ * the same refresh instead of each starting their own.
+ */
+
+import { refreshAccessToken } from './oauth.js';
+import type { OAuthClientConfig, OAuthTokens } from './oauth.js';
+import type { FetchFunction, TokenProvider } from '../types/index.js';
+
+/**
+ * Credential options taken from the client configuration
+ */
+export interface TokenManagerOptions {
+  apiKey?: string;
+  accessToken?: string;
+  tokenProvider?: TokenProvider;
+  refreshToken?: string;
+  oauthClient?: OAuthClientConfig;
+  onTokenRefreshed?: (tokens: OAuthTokens) => void | Promise<void>;
+  fetch: FetchFunction;
+}
+
+/**
+ * Supplies the bearer token for requests and refreshes it on demand
+ */
+export class TokenManager {
+  private readonly options: TokenManagerOptions;
+  /** Current access token; with a token provider, the last token it returned */
+  private accessToken?: string;
+  private refreshToken?: string;
+  private refreshing: Promise<string> | null = null;
+
+  /**
+   * @param options - Credential options
+   * @throws Error if a refresh token is given without OAuth client settings
+   */
+  constructor(options: TokenManagerOptions) {
+    if (options.refreshToken && !options.oauthClient) {
+      throw new Error('oauthClient is required when refreshToken is provided');
+    }
+
+    this.options = options;
+    this.accessToken = options.accessToken || options.apiKey;
+    this.refreshToken = options.refreshToken;
+  }
+
+  /**
+   * Whether a rejected token can be replaced with a new one
+   */
+  get canRefresh(): boolean {
+    return this.options.tokenProvider !== undefined || this.refreshToken !== undefined;
+  }
+
+  /**
+   * Get the token to send with the next request
+   *
+   * Returns synchronously when the token is already known, so requests
+   * with static credentials are dispatched without an extra tick.
+   */
+  getToken(): string | Promise<string> {
+    if (this.refreshing) {
+      return this.refreshing;
+    }
+
+    if (this.options.tokenProvider) {
+      return this.fromProvider(false);
+    }
+
+    if (!this.accessToken && this.refreshToken) {
+      return this.refresh(undefined);
+    }
+
+    return this.accessToken ?? '';
+  }
+
+  /**
+   * Replace a token the API rejected
+   *
+   * If another request already refreshed past `rejectedToken`, the current
+   * token is returned without refreshing again.
+   *
+   * @param rejectedToken - Token that received a 401
+   * @returns New token to retry with
+   */
+  refresh(rejectedToken: string | undefined): Promise<string> {
+    if (this.refreshing) {
+      return this.refreshing;
+    }
+
+    if (this.accessToken && this.accessToken !== rejectedToken) {
+      return Promise.resolve(this.accessToken);
+    }
+
+    this.refreshing = this.fetchNewToken().finally(() => {
+      this.refreshing = null;
+    });
+
+    return this.refreshing;
+  }
+
+  /**
+   * Ask the token provider for a token and remember it
+   *
+   * A 401 for any other token means the provider has moved on already,
+   * so refresh() can skip forcing a new one.
+   */
+  private async fromProvider(forceRefresh: boolean): Promise<string> {
+    const token = await this.options.tokenProvider!({ forceRefresh });
+    this.accessToken = token;
+    return token;
+  }
+
+  /**
+   * Obtain a new token from the provider or the token endpoint
+   */
+  private async fetchNewToken(): Promise<string> {
+    if (this.options.tokenProvider) {
+      return this.fromProvider(true);
+    }
+
+    const tokens = await refreshAccessToken(
+      { fetch: this.options.fetch, ...this.options.oauthClient! },
+      this.refreshToken!
+    );
+
+    this.accessToken = tokens.accessToken;
+    // Refresh tokens may be rotated; keep using the latest one
+    this.refreshToken = tokens.refreshToken ?? this.refreshToken;
+
+    await this.options.onTokenRefreshed?.(tokens);
+
+    return tokens.accessToken;
+  }
+}
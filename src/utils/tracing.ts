@@ -0,0 +1,36 @@
+/**
+ * @file utils/tracing.ts
+ * @description Helpers for OpenTelemetry-compatible tracing
+ *
+ * The SDK has no dependency on `@opentelemetry/api`; these constants mirror
+ * the numeric enum values it uses so spans are recorded correctly by any
+ * compatible tracer.
+ */
+
+/**
+ * OpenTelemetry SpanKind.CLIENT
+ */
+export const SPAN_KIND_CLIENT = 2;
+
+/**
+ * OpenTelemetry SpanStatusCode values
+ */
+export const SPAN_STATUS_OK = 1;
+export const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Get the API resource name from a request path
+ *
+ * @param path - Request path, e.g. /v1/clients/{id}
+ * @returns Resource name, e.g. clients
+ *
+ * @example
+ * ```typescript
+ * getResourceName('/v1/webhooks/wh-1/deliveries'); // 'webhooks'
+ * ```
+ */
+export function getResourceName(path: string): string {
+  const segments = path.split('?')[0].split('/').filter(Boolean);
+  const index = /^v\d+$/.test(segments[0] ?? '') ? 1 : 0;
+  return segments[index] ?? 'unknown';
+}
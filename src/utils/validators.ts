@@ -0,0 +1,678 @@
+/**
+ * @file utils/validators.ts
+ * @description Runtime validators for the SDK's response types
+ *
+ * The interfaces in types/index.ts only exist at compile time. These
+ * validators check values against the same shapes at runtime and report
+ * the path of every mismatch. The client uses them when `validateResponses`
+ * is set, and they can be used directly on webhook payloads. Unknown extra
+ * fields are allowed so additions to the API do not fail validation.
+ */
+
+import { ResponseValidationError } from '../errors.js';
+import type {
+  HttpMethod,
+  ValidationIssue,
+  ApiResponse,
+  ListResponse,
+  ResponseMeta,
+  Pagination,
+  Client,
+  InvoiceItem,
+  Invoice,
+  Payment,
+  PaymentResult,
+  QuoteItem,
+  Quote,
+  Job,
+  ServiceRequest,
+  WebhookEvent,
+  Webhook,
+  WebhookDelivery,
+  WebhookSecretResponse,
+  WebhookEventTypeInfo,
+  NotificationResult,
+  IntegrationScope,
+  Integration,
+  IntegrationReview,
+  InstalledIntegration,
+} from '../types/index.js';
+
+/**
+ * Checks a value and its type at runtime
+ *
+ * @example
+ * ```typescript
+ * const issues = validators.invoice.validate(payload.data);
+ * // [{ path: 'items[0].quantity', expected: 'number', received: 'string' }]
+ *
+ * const invoice = validators.invoice.parse(payload.data); // Throws on mismatch
+ * ```
+ */
+export interface Validator<T> {
+  /** Name of the expected type, used in issue messages */
+  readonly name: string;
+  /** Whether the field may be absent when used in an object */
+  readonly optional?: boolean;
+  /**
+   * Add every mismatch in `value` to `issues`
+   *
+   * @param value - Value to check
+   * @param path - Location of the value, prefixed to issue paths
+   * @param issues - Collected mismatches
+   */
+  check(value: unknown, path: string, issues: ValidationIssue[]): void;
+  /** Return every mismatch; empty when the value is valid */
+  validate(value: unknown): ValidationIssue[];
+  /** Whether the value matches the type */
+  is(value: unknown): value is T;
+  /**
+   * Return the value typed as T
+   *
+   * @throws ResponseValidationError listing every mismatch
+   */
+  parse(value: unknown): T;
+}
+
+// =============================================================================
+// COMBINATORS
+// =============================================================================
+
+/**
+ * Describe the type of a value for an issue message
+ */
+function describeValue(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+/**
+ * Join a property name onto a path
+ */
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Summarize issues for an error message, e.g.
+ * `data.total: expected number, received string (and 2 more)`
+ */
+export function formatIssues(issues: readonly ValidationIssue[]): string {
+  const [first] = issues;
+  if (!first) {
+    return 'no issues';
+  }
+
+  const summary = `${first.path || '(root)'}: expected ${first.expected}, received ${first.received}`;
+  return issues.length > 1 ? `${summary} (and ${issues.length - 1} more)` : summary;
+}
+
+/**
+ * Build a validator from a check function
+ */
+function createValidator<T>(
+  name: string,
+  check: (value: unknown, path: string, issues: ValidationIssue[]) => void,
+  optional?: boolean
+): Validator<T> {
+  const validator: Validator<T> = {
+    name,
+    optional,
+    check,
+    validate(value) {
+      const issues: ValidationIssue[] = [];
+      check(value, '', issues);
+      return issues;
+    },
+    is(value): value is T {
+      return validator.validate(value).length === 0;
+    },
+    parse(value) {
+      const issues = validator.validate(value);
+      if (issues.length > 0) {
+        throw new ResponseValidationError(`Value does not match ${name}: ${formatIssues(issues)}`, issues, 0);
+      }
+      return value as T;
+    },
+  };
+  return validator;
+}
+
+/**
+ * Validator for a primitive `typeof` type
+ */
+function primitive<T>(type: 'string' | 'number' | 'boolean'): Validator<T> {
+  return createValidator<T>(type, (value, path, issues) => {
+    if (typeof value !== type || (type === 'number' && Number.isNaN(value))) {
+      issues.push({ path, expected: type, received: describeValue(value) });
+    }
+  });
+}
+
+const string = primitive<string>('string');
+const number = primitive<number>('number');
+const boolean = primitive<boolean>('boolean');
+
+/**
+ * Validator that accepts any value
+ */
+const unknownValue = createValidator<unknown>('unknown', () => undefined);
+
+/**
+ * Allow null in addition to the inner type
+ */
+function nullable<T>(inner: Validator<T>): Validator<T | null> {
+  return createValidator<T | null>(`${inner.name} | null`, (value, path, issues) => {
+    if (value !== null) {
+      inner.check(value, path, issues);
+    }
+  });
+}
+
+/**
+ * Allow an object field to be absent
+ */
+function optional<T>(inner: Validator<T>): Validator<T | undefined> {
+  return createValidator<T | undefined>(inner.name, (value, path, issues) => {
+    if (value !== undefined) {
+      inner.check(value, path, issues);
+    }
+  }, true);
+}
+
+/**
+ * Accept only the listed string values
+ */
+function oneOf<T extends string>(values: readonly T[]): Validator<T> {
+  const name = values.map((value) => `'${value}'`).join(' | ');
+  return createValidator<T>(name, (value, path, issues) => {
+    if (!values.includes(value as T)) {
+      issues.push({
+        path,
+        expected: name,
+        received: typeof value === 'string' ? `'${value}'` : describeValue(value),
+      });
+    }
+  });
+}
+
+/**
+ * Array whose elements all match the item validator
+ */
+function array<T>(item: Validator<T>): Validator<T[]> {
+  return createValidator<T[]>(`${item.name}[]`, (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, expected: 'array', received: describeValue(value) });
+      return;
+    }
+    value.forEach((element, index) => item.check(element, `${path}[${index}]`, issues));
+  });
+}
+
+/**
+ * Plain object whose values all match the value validator
+ */
+function record<T>(valueValidator: Validator<T>): Validator<Record<string, T>> {
+  return createValidator<Record<string, T>>('object', (value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      issues.push({ path, expected: 'object', received: describeValue(value) });
+      return;
+    }
+    for (const [key, element] of Object.entries(value)) {
+      valueValidator.check(element, joinPath(path, key), issues);
+    }
+  });
+}
+
+/**
+ * Object with a validator for every property of T
+ */
+function object<T>(name: string, shape: { [K in keyof T]-?: Validator<T[K]> }): Validator<T> {
+  return createValidator<T>(name, (value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      issues.push({ path, expected: name, received: describeValue(value) });
+      return;
+    }
+
+    for (const [key, validator] of Object.entries(shape) as Array<[string, Validator<unknown>]>) {
+      const field = (value as Record<string, unknown>)[key];
+      if (field === undefined && !validator.optional) {
+        issues.push({ path: joinPath(path, key), expected: validator.name, received: 'undefined' });
+      } else {
+        validator.check(field, joinPath(path, key), issues);
+      }
+    }
+  });
+}
+
+const meta = object<ResponseMeta>('ResponseMeta', {
+  request_id: string,
+  timestamp: string,
+});
+
+const pagination = object<Pagination>('Pagination', {
+  page: optional(number),
+  per_page: optional(number),
+  total: number,
+  total_pages: optional(number),
+  limit: optional(number),
+  offset: optional(number),
+  has_more: boolean,
+});
+
+/**
+ * Single-item response envelope around a data validator
+ */
+function apiResponse<T>(data: Validator<T>): Validator<ApiResponse<T>> {
+  return object<ApiResponse<T>>(`ApiResponse<${data.name}>`, { data, meta });
+}
+
+/**
+ * List response envelope around an item validator
+ */
+function listResponse<T>(item: Validator<T>): Validator<ListResponse<T>> {
+  return object<ListResponse<T>>(`ListResponse<${item.name}>`, { data: array(item), meta, pagination });
+}
+
+// =============================================================================
+// RESOURCE VALIDATORS
+// =============================================================================
+
+const client = object<Client>('Client', {
+  id: string,
+  business_id: string,
+  first_name: string,
+  last_name: nullable(string),
+  company: nullable(string),
+  email: nullable(string),
+  phone: nullable(string),
+  status: oneOf(['active', 'inactive', 'archived']),
+  lead_status: nullable(oneOf(['new', 'contacted', 'qualified', 'proposal', 'negotiation', 'won', 'lost'])),
+  source: nullable(string),
+  notes: nullable(string),
+  internal_notes: nullable(string),
+  tags: nullable(array(string)),
+  next_contact_date: nullable(string),
+  ask_for_review: nullable(boolean),
+  created_at: string,
+  updated_at: nullable(string),
+});
+
+const invoiceItem = object<InvoiceItem>('InvoiceItem', {
+  id: optional(string),
+  description: string,
+  quantity: number,
+  unit_price: number,
+  sort_order: optional(number),
+});
+
+const invoice = object<Invoice>('Invoice', {
+  id: string,
+  business_id: string,
+  client_id: nullable(string),
+  job_id: nullable(string),
+  invoice_number: string,
+  status: oneOf(['draft', 'sent', 'viewed', 'partial', 'paid', 'overdue', 'cancelled', 'voided']),
+  issue_date: string,
+  due_date: nullable(string),
+  subtotal: number,
+  tax_rate: nullable(number),
+  tax_amount: nullable(number),
+  discount_amount: nullable(number),
+  total: number,
+  amount_paid: number,
+  notes: nullable(string),
+  terms: nullable(string),
+  sent_at: nullable(string),
+  paid_at: nullable(string),
+  quote_id: optional(nullable(string)),
+  voided_at: optional(nullable(string)),
+  void_reason: optional(nullable(string)),
+  items: array(invoiceItem),
+  client: optional(client),
+  created_at: string,
+  updated_at: nullable(string),
+});
+
+const payment = object<Payment>('Payment', {
+  id: string,
+  invoice_id: string,
+  amount: number,
+  method: oneOf(['cash', 'check', 'card', 'bank_transfer', 'other']),
+  reference: nullable(string),
+  notes: nullable(string),
+  received_at: string,
+  refunded_amount: number,
+  refunded_at: nullable(string),
+  created_at: string,
+  updated_at: nullable(string),
+});
+
+const paymentResult = object<PaymentResult>('PaymentResult', {
+  payment,
+  invoice,
+});
+
+const quoteItem = object<QuoteItem>('QuoteItem', {
+  id: optional(string),
+  description: string,
+  quantity: number,
+  unit_price: number,
+  sort_order: optional(number),
+});
+
+const quote = object<Quote>('Quote', {
+  id: string,
+  business_id: string,
+  client_id: nullable(string),
+  job_id: nullable(string),
+  quote_number: string,
+  status: oneOf(['draft', 'sent', 'viewed', 'approved', 'rejected', 'expired', 'converted']),
+  issue_date: string,
+  valid_until: nullable(string),
+  subtotal: number,
+  tax_rate: nullable(number),
+  tax_amount: nullable(number),
+  discount_amount: nullable(number),
+  total: number,
+  notes: nullable(string),
+  terms: nullable(string),
+  sent_at: nullable(string),
+  approved_at: nullable(string),
+  approved_by: nullable(string),
+  signature_name: optional(nullable(string)),
+  rejection_reason: optional(nullable(string)),
+  items: array(quoteItem),
+  client: optional(client),
+  created_at: string,
+  updated_at: nullable(string),
+});
+
+const job = object<Job>('Job', {
+  id: string,
+  business_id: string,
+  client_id: nullable(string),
+  job_number: nullable(string),
+  title: string,
+  description: nullable(string),
+  status: oneOf(['draft', 'scheduled', 'in_progress', 'on_hold', 'completed', 'cancelled', 'invoiced', 'closed']),
+  priority: oneOf(['low', 'medium', 'normal', 'high', 'urgent']),
+  scheduled_start: nullable(string),
+  scheduled_end: nullable(string),
+  actual_start: nullable(string),
+  actual_end: nullable(string),
+  estimated_duration: nullable(number),
+  address_id: nullable(string),
+  notes: nullable(string),
+  client: optional(client),
+  created_at: string,
+  updated_at: nullable(string),
+});
+
+const serviceRequest = object<ServiceRequest>('ServiceRequest', {
+  id: string,
+  business_id: string,
+  client_id: nullable(string),
+  request_number: string,
+  title: string,
+  description: nullable(string),
+  status: oneOf(['new', 'in_progress', 'assessment_complete', 'completed', 'cancelled']),
+  source: nullable(string),
+  priority: nullable(oneOf(['low', 'medium', 'high', 'urgent'])),
+  requested_date: nullable(string),
+  preferred_time: nullable(string),
+  address: nullable(string),
+  contact_name: nullable(string),
+  contact_email: nullable(string),
+  contact_phone: nullable(string),
+  notes: nullable(string),
+  client: optional(client),
+  created_at: string,
+  updated_at: nullable(string),
+});
+
+const webhookEvent = oneOf<WebhookEvent>([
+  'client.created', 'client.updated', 'client.deleted',
+  'invoice.created', 'invoice.updated', 'invoice.sent', 'invoice.viewed', 'invoice.paid',
+  'invoice.overdue', 'invoice.voided',
+  'quote.created', 'quote.updated', 'quote.sent', 'quote.viewed', 'quote.accepted',
+  'quote.rejected', 'quote.expired',
+  'job.created', 'job.updated', 'job.status_changed', 'job.completed', 'job.cancelled',
+  'service_request.created', 'service_request.updated', 'service_request.assigned',
+  'service_request.completed',
+]);
+
+const webhook = object<Webhook>('Webhook', {
+  id: string,
+  business_id: string,
+  name: string,
+  url: string,
+  events: array(webhookEvent),
+  secret: string,
+  is_active: boolean,
+  metadata: nullable(record(unknownValue)),
+  failure_count: number,
+  last_triggered_at: nullable(string),
+  last_success_at: nullable(string),
+  last_failure_at: nullable(string),
+  created_by: nullable(string),
+  created_at: string,
+  updated_at: nullable(string),
+});
+
+const webhookDelivery = object<WebhookDelivery>('WebhookDelivery', {
+  id: string,
+  webhook_id: string,
+  event_id: string,
+  event_type: webhookEvent,
+  payload: record(unknownValue),
+  request_headers: nullable(record(string)),
+  response_status: nullable(number),
+  response_headers: nullable(record(string)),
+  response_body: nullable(string),
+  response_time_ms: nullable(number),
+  attempt_count: number,
+  max_attempts: number,
+  next_retry_at: nullable(string),
+  delivered_at: nullable(string),
+  failed_at: nullable(string),
+  error_message: nullable(string),
+  created_at: string,
+});
+
+const webhookSecret = object<WebhookSecretResponse>('WebhookSecretResponse', {
+  secret: string,
+});
+
+const webhookEventTypeInfo = object<WebhookEventTypeInfo>('WebhookEventTypeInfo', {
+  event: webhookEvent,
+  description: string,
+  category: oneOf(['client', 'invoice', 'quote', 'job', 'service_request']),
+});
+
+const notificationResult = object<NotificationResult>('NotificationResult', {
+  success: boolean,
+  notification_id: string,
+  recipients_count: number,
+  sent_count: number,
+  failed_count: number,
+  errors: optional(array(string)),
+});
+
+const integrationScope = object<IntegrationScope>('IntegrationScope', {
+  scope: string,
+  description: string,
+  required: boolean,
+});
+
+const integration = object<Integration>('Integration', {
+  id: string,
+  slug: string,
+  name: string,
+  short_description: string,
+  description: string,
+  category: oneOf([
+    'accounting', 'analytics', 'automation', 'communication', 'crm', 'ecommerce',
+    'marketing', 'payments', 'productivity', 'scheduling', 'other',
+  ]),
+  icon_url: nullable(string),
+  website_url: nullable(string),
+  support_email: nullable(string),
+  privacy_policy_url: nullable(string),
+  terms_url: nullable(string),
+  scopes: array(integrationScope),
+  webhook_events: array(webhookEvent),
+  install_count: number,
+  average_rating: nullable(number),
+  review_count: number,
+  developer: object<Integration['developer']>('IntegrationDeveloper', {
+    id: string,
+    name: string,
+    website: nullable(string),
+    verified: boolean,
+  }),
+  published_at: string,
+  created_at: string,
+  updated_at: nullable(string),
+});
+
+const integrationReview = object<IntegrationReview>('IntegrationReview', {
+  id: string,
+  integration_id: string,
+  rating: number,
+  title: nullable(string),
+  content: nullable(string),
+  reviewer_name: string,
+  created_at: string,
+});
+
+const installedIntegration = object<InstalledIntegration>('InstalledIntegration', {
+  id: string,
+  integration_id: string,
+  integration,
+  access_token_prefix: string,
+  granted_scopes: array(string),
+  installed_at: string,
+  installed_by: nullable(string),
+  is_active: boolean,
+});
+
+/**
+ * Acknowledgement returned by send/test endpoints, e.g. `{ message, invoice_id }`
+ */
+function acknowledgement(idField: string): Validator<Record<string, string>> {
+  return object<Record<string, string>>('Acknowledgement', { message: string, [idField]: string });
+}
+
+/**
+ * Validators for every resource type returned by the API
+ *
+ * @example
+ * ```typescript
+ * const event = constructWebhookEvent(rawBody, signature, secret);
+ * if (event.event === 'invoice.paid') {
+ *   const invoice = validators.invoice.parse(event.data);
+ * }
+ * ```
+ */
+export const validators = {
+  client,
+  invoice,
+  invoiceItem,
+  payment,
+  paymentResult,
+  quote,
+  quoteItem,
+  job,
+  serviceRequest,
+  webhook,
+  webhookDelivery,
+  webhookEvent,
+  webhookEventTypeInfo,
+  webhookSecret,
+  notificationResult,
+  integration,
+  integrationScope,
+  integrationReview,
+  installedIntegration,
+  meta,
+  pagination,
+  apiResponse,
+  listResponse,
+};
+
+// =============================================================================
+// ROUTES
+// =============================================================================
+
+/**
+ * Expected response type for each endpoint, matched in order
+ */
+const RESPONSE_ROUTES: Array<[HttpMethod, RegExp, Validator<unknown>]> = [
+  ['GET', /^\/v1\/clients$/, listResponse(client)],
+  ['POST', /^\/v1\/clients$/, apiResponse(client)],
+  ['GET', /^\/v1\/clients\/[^/]+$/, apiResponse(client)],
+  ['PUT', /^\/v1\/clients\/[^/]+$/, apiResponse(client)],
+
+  ['GET', /^\/v1\/invoices$/, listResponse(invoice)],
+  ['POST', /^\/v1\/invoices$/, apiResponse(invoice)],
+  ['GET', /^\/v1\/invoices\/[^/]+$/, apiResponse(invoice)],
+  ['PUT', /^\/v1\/invoices\/[^/]+$/, apiResponse(invoice)],
+  ['POST', /^\/v1\/invoices\/[^/]+\/send$/, apiResponse(acknowledgement('invoice_id'))],
+  ['POST', /^\/v1\/invoices\/[^/]+\/remind$/, apiResponse(acknowledgement('invoice_id'))],
+  ['GET', /^\/v1\/invoices\/[^/]+\/payments$/, listResponse(payment)],
+  ['POST', /^\/v1\/invoices\/[^/]+\/payments$/, apiResponse(paymentResult)],
+  ['POST', /^\/v1\/invoices\/[^/]+\/payments\/[^/]+\/refund$/, apiResponse(paymentResult)],
+  ['DELETE', /^\/v1\/invoices\/[^/]+\/payments\/[^/]+$/, apiResponse(paymentResult)],
+
+  ['GET', /^\/v1\/quotes$/, listResponse(quote)],
+  ['POST', /^\/v1\/quotes$/, apiResponse(quote)],
+  ['GET', /^\/v1\/quotes\/[^/]+$/, apiResponse(quote)],
+  ['PUT', /^\/v1\/quotes\/[^/]+$/, apiResponse(quote)],
+  ['POST', /^\/v1\/quotes\/[^/]+\/send$/, apiResponse(acknowledgement('quote_id'))],
+
+  ['GET', /^\/v1\/jobs$/, listResponse(job)],
+  ['POST', /^\/v1\/jobs$/, apiResponse(job)],
+  ['GET', /^\/v1\/jobs\/[^/]+$/, apiResponse(job)],
+  ['PUT', /^\/v1\/jobs\/[^/]+$/, apiResponse(job)],
+
+  ['GET', /^\/v1\/requests$/, listResponse(serviceRequest)],
+  ['POST', /^\/v1\/requests$/, apiResponse(serviceRequest)],
+  ['GET', /^\/v1\/requests\/[^/]+$/, apiResponse(serviceRequest)],
+  ['PUT', /^\/v1\/requests\/[^/]+$/, apiResponse(serviceRequest)],
+
+  ['GET', /^\/v1\/webhooks$/, listResponse(webhook)],
+  ['POST', /^\/v1\/webhooks$/, apiResponse(webhook)],
+  ['GET', /^\/v1\/webhooks\/event-types$/, apiResponse(array(webhookEventTypeInfo))],
+  ['GET', /^\/v1\/webhooks\/[^/]+$/, apiResponse(webhook)],
+  ['PUT', /^\/v1\/webhooks\/[^/]+$/, apiResponse(webhook)],
+  ['GET', /^\/v1\/webhooks\/[^/]+\/deliveries$/, listResponse(webhookDelivery)],
+  ['GET', /^\/v1\/webhooks\/[^/]+\/deliveries\/[^/]+$/, apiResponse(webhookDelivery)],
+  ['POST', /^\/v1\/webhooks\/[^/]+\/test$/, apiResponse(acknowledgement('delivery_id'))],
+  ['POST', /^\/v1\/webhooks\/[^/]+\/secret$/, apiResponse(webhookSecret)],
+
+  ['POST', /^\/v1\/notifications$/, apiResponse(notificationResult)],
+
+  ['GET', /^\/v1\/integrations$/, listResponse(integration)],
+  ['POST', /^\/v1\/integrations\/install$/, apiResponse(installedIntegration)],
+  ['GET', /^\/v1\/integrations\/installed$/, listResponse(installedIntegration)],
+  ['GET', /^\/v1\/integrations\/installed\/[^/]+$/, apiResponse(installedIntegration)],
+  ['POST', /^\/v1\/integrations\/installed\/[^/]+\/(enable|disable)$/, apiResponse(installedIntegration)],
+  ['GET', /^\/v1\/integrations\/[^/]+\/reviews$/, listResponse(integrationReview)],
+  ['POST', /^\/v1\/integrations\/[^/]+\/reviews$/, apiResponse(integrationReview)],
+  ['GET', /^\/v1\/integrations\/[^/]+$/, apiResponse(integration)],
+];
+
+/**
+ * Find the validator for an endpoint's response body
+ *
+ * @param method - HTTP method
+ * @param path - Request path without query string, e.g. `/v1/invoices/inv_1`
+ * @returns Validator, or undefined for endpoints without a known response type
+ */
+export function findResponseValidator(method: HttpMethod, path: string): Validator<unknown> | undefined {
+  const route = RESPONSE_ROUTES.find(([routeMethod, pattern]) => routeMethod === method && pattern.test(path));
+  return route?.[2];
+}
@@ -110,6 +110,39 @@ export function computeSignature(
   return createHmac('sha256', secret).update(signedPayload).digest('hex');
 }
 
+/**
+ * Build an X-Workbench-Signature header for a payload
+ *
+ * Signs the payload the same way Workbench does, so webhook handlers can be
+ * tested locally with events you construct yourself.
+ *
+ * @param payload - The raw webhook payload (string or Buffer)
+ * @param secret - The webhook secret
+ * @param timestamp - Unix timestamp in seconds (defaults to now)
+ * @returns Header value in the form `t=<timestamp>,v1=<signature>`
+ *
+ * @example
+ * ```typescript
+ * const payload = JSON.stringify({
+ *   event: 'invoice.paid',
+ *   data: invoice,
+ *   timestamp: new Date().toISOString()
+ * });
+ *
+ * await request(app)
+ *   .post('/webhooks')
+ *   .set('X-Workbench-Signature', generateSignatureHeader(payload, 'whsec_test'))
+ *   .send(payload);
+ * ```
+ */
+export function generateSignatureHeader(
+  payload: string | Buffer,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  return `t=${timestamp},v1=${computeSignature(payload, secret, timestamp)}`;
+}
+
 /**
  * Verify a Workbench webhook signature
  *
@@ -0,0 +1,85 @@
+/**
+ * @file utils/workbench-promise.ts
+ * @description Promise returned by every API call
+ *
+ * A WorkbenchPromise resolves to the parsed response body like a normal
+ * promise, and additionally exposes the HTTP response metadata (status,
+ * headers, request ID, timing) through `withResponse()` and `asResponse()`.
+ */
+
+import type { ResponseInfo, WithResponse } from '../types/index.js';
+
+/**
+ * Promise for an API call that also exposes HTTP response metadata
+ *
+ * @example
+ * ```typescript
+ * // Await as usual for the body
+ * const { data: client } = await workbench.clients.get('client-uuid');
+ *
+ * // Or get the body together with response metadata
+ * const { data, response } = await workbench.clients.get('client-uuid').withResponse();
+ * console.log(response.requestId, response.status, response.durationMs);
+ * ```
+ */
+export class WorkbenchPromise<T> extends Promise<T> {
+  private readonly responsePromise: Promise<WithResponse<T>>;
+
+  /**
+   * @param responsePromise - Promise for the parsed body and response metadata
+   */
+  constructor(responsePromise: Promise<WithResponse<T>>) {
+    // The base promise is never used; all chaining goes through responsePromise
+    super((resolve) => resolve(null as T));
+    this.responsePromise = responsePromise;
+  }
+
+  /**
+   * Derived promises (from then/catch/finally) are plain promises
+   */
+  static get [Symbol.species](): PromiseConstructor {
+    return Promise;
+  }
+
+  /**
+   * Resolve to the parsed body together with HTTP response metadata
+   */
+  withResponse(): Promise<WithResponse<T>> {
+    return this.responsePromise;
+  }
+
+  /**
+   * Resolve to the HTTP response metadata only
+   */
+  asResponse(): Promise<ResponseInfo> {
+    return this.responsePromise.then(({ response }) => response);
+  }
+
+  /**
+   * Transform the parsed body while keeping the response metadata
+   *
+   * @param fn - Maps the parsed body to a new value
+   */
+  map<U>(fn: (data: T) => U): WorkbenchPromise<U> {
+    return new WorkbenchPromise(
+      this.responsePromise.then(({ data, response }) => ({ data: fn(data), response }))
+    );
+  }
+
+  override then<TResult1 = T, TResult2 = never>(
+    onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): Promise<TResult1 | TResult2> {
+    return this.responsePromise.then(({ data }) => data).then(onfulfilled, onrejected);
+  }
+
+  override catch<TResult = never>(
+    onrejected?: ((reason: unknown) => TResult | PromiseLike<TResult>) | null
+  ): Promise<T | TResult> {
+    return this.then(undefined, onrejected);
+  }
+
+  override finally(onfinally?: (() => void) | null): Promise<T> {
+    return this.then().finally(onfinally);
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * @fileoverview Bulk operation tests
+ *
+ * Tests batch() and the createMany()/updateMany() shortcuts to ensure:
+ * - Items are processed with bounded concurrency
+ * - Successes and failures are reported per item, in input order
+ * - stopOnError skips the remaining items
+ * - Transient failures and skipped items are listed as retryable
+ * - Item idempotency keys come from the item, so resubmitted items reuse them
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WorkbenchClient } from '../src/client.js';
+import { ValidationError } from '../src/errors.js';
+import { jsonResponse, skipSleep } from './helpers.js';
+
+// =============================================================================
+// TEST SETUP
+// =============================================================================
+
+const validationError = {
+  error: {
+    code: 'VALIDATION_ERROR',
+    message: 'Invalid client',
+    details: [{ field: 'email', message: 'Email is invalid' }],
+  },
+};
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('Bulk operations', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let client: WorkbenchClient;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    skipSleep();
+    client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock, maxRetries: 0 });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should report successes and failures from createMany()', async () => {
+    fetchMock.mockImplementation(async (_url: string, init: RequestInit) => {
+      const body = JSON.parse(init.body as string);
+      if (body.email === 'bad') {
+        return jsonResponse(validationError, 422);
+      }
+      if (body.email === 'busy') {
+        return jsonResponse({ error: { code: 'RATE_LIMITED', message: 'Slow down' } }, 429);
+      }
+      return jsonResponse({ data: { id: `id-${body.email}` }, meta: {} });
+    });
+
+    const items = [
+      { first_name: 'A', email: 'a@example.com' },
+      { first_name: 'B', email: 'bad' },
+      { first_name: 'C', email: 'busy' },
+      { first_name: 'D', email: 'd@example.com' },
+    ];
+    const report = await client.clients.createMany(items);
+
+    expect(report.succeeded.map((s) => s.result.data.id)).toEqual(['id-a@example.com', 'id-d@example.com']);
+    expect(report.failed.map((f) => [f.index, f.retryable])).toEqual([[1, false], [2, true]]);
+    expect(report.failed[0].error).toBeInstanceOf(ValidationError);
+    expect(report.failed[0].error.details).toEqual(validationError.error.details);
+    expect(report.retryable).toEqual([items[2]]);
+  });
+
+  it('should update each item with updateMany()', async () => {
+    fetchMock.mockImplementation(async (url: string) => jsonResponse({ data: { id: url.split('/').pop() }, meta: {} }));
+
+    const report = await client.jobs.updateMany([
+      { id: 'job-1', data: { status: 'completed' } },
+      { id: 'job-2', data: { status: 'completed' } },
+    ]);
+
+    expect(report.succeeded).toHaveLength(2);
+    expect(fetchMock.mock.calls.map(([url, init]) => [url, init.method])).toEqual([
+      ['https://api.tryworkbench.app/v1/jobs/job-1', 'PUT'],
+      ['https://api.tryworkbench.app/v1/jobs/job-2', 'PUT'],
+    ]);
+  });
+
+  it('should reuse item idempotency keys when resubmitting retryable items', async () => {
+    fetchMock.mockImplementation(async (_url: string, init: RequestInit) => {
+      const body = JSON.parse(init.body as string);
+      return body.client_id === 'c2' && fetchMock.mock.calls.length <= 3
+        ? jsonResponse({ error: { code: 'RATE_LIMITED', message: 'Slow down' } }, 429)
+        : jsonResponse({ data: { id: 'id' }, meta: {} });
+    });
+    const keyHeaders = () => fetchMock.mock.calls.map(([, init]) => init.headers['Idempotency-Key']);
+    const options = { concurrency: 1, idempotencyKey: (item: { client_id: string }) => `import-${item.client_id}` };
+
+    const report = await client.invoices.createMany([{ client_id: 'c1' }, { client_id: 'c2' }, { client_id: 'c3' }], options);
+    await client.invoices.createMany(report.retryable, options);
+
+    expect(report.retryable).toEqual([{ client_id: 'c2' }]);
+    expect(keyHeaders()).toEqual(['import-c1', 'import-c2', 'import-c3', 'import-c2']);
+  });
+
+  it('should join a shared idempotency key to each updated ID', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse({ data: { id: 'id' }, meta: {} }));
+
+    await client.clients.updateMany(
+      [
+        { id: 'client-1', data: { status: 'inactive' } },
+        { id: 'client-2', data: { status: 'inactive' } },
+      ],
+      {},
+      { idempotencyKey: 'sync-7' }
+    );
+
+    expect(fetchMock.mock.calls.map(([, init]) => init.headers['Idempotency-Key'])).toEqual([
+      'sync-7:client-1',
+      'sync-7:client-2',
+    ]);
+  });
+
+  it('should not send a shared idempotency key with every created item', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse({ data: { id: 'id' }, meta: {} }));
+
+    await client.invoices.createMany([{ client_id: 'c1' }, { client_id: 'c2' }], {}, { idempotencyKey: 'import-42' });
+
+    const keys = fetchMock.mock.calls.map(([, init]) => init.headers['Idempotency-Key']);
+    expect(keys).not.toContain('import-42');
+    expect(new Set(keys).size).toBe(2);
+  });
+
+  it('should never run more than the configured concurrency', async () => {
+    let running = 0;
+    let peak = 0;
+
+    const report = await client.batch(Array.from({ length: 10 }, (_, i) => i), async (n) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      running--;
+      return n * 2;
+    }, { concurrency: 3 });
+
+    expect(peak).toBe(3);
+    expect(report.succeeded.map((s) => s.result)).toEqual([0, 2, 4, 6, 8, 10, 12, 14, 16, 18]);
+  });
+
+  it('should skip remaining items after a failure with stopOnError', async () => {
+    const report = await client.batch(['a', 'b', 'c', 'd'], async (item) => {
+      if (item === 'b') {
+        throw new Error('boom');
+      }
+      return item;
+    }, { concurrency: 1, stopOnError: true });
+
+    expect(report.succeeded.map((s) => s.item)).toEqual(['a']);
+    expect(report.failed[0]).toMatchObject({ index: 1, retryable: false });
+    expect(report.failed[0].error.message).toBe('boom');
+    expect(report.skipped).toEqual([{ index: 2, item: 'c' }, { index: 3, item: 'd' }]);
+    expect(report.retryable).toEqual(['c', 'd']);
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * @fileoverview Response cache tests
+ *
+ * Tests GET response caching to ensure:
+ * - Fresh entries are served without contacting the API
+ * - Stale entries are revalidated with If-None-Match and 304s served from cache
+ * - TTLs can be set per resource and the cache bypassed per call
+ * - Writes invalidate cached records and lists of the resource and custom stores are used
+ * - Clients for different accounts never share cached responses
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { WorkbenchClient } from '../src/client.js';
+import { MemoryCacheStore } from '../src/utils/cache.js';
+import type { CacheEntry, CacheStore } from '../src/types/index.js';
+import { jsonResponse } from './helpers.js';
+
+// =============================================================================
+// TEST SETUP
+// =============================================================================
+
+const integration = { data: { slug: 'stripe', name: 'Stripe' }, meta: {} };
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('Response cache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should not cache unless enabled', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse(integration));
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    await client.integrations.get('stripe');
+    await client.integrations.get('stripe');
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should serve fresh entries from the cache', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse(integration));
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock, cache: true });
+
+    await client.integrations.get('stripe');
+    const { data, response } = await client.integrations.get('stripe').withResponse();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(data).toEqual(integration);
+    expect(response).toMatchObject({ status: 200, attempts: 0, cached: true });
+  });
+
+  it('should revalidate stale entries and serve 304 responses from the cache', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(integration, 200, { ETag: '"v1"' }))
+      .mockResolvedValueOnce(new Response(null, { status: 304 }));
+    const client = new WorkbenchClient({
+      apiKey: 'wbk_test_xxx',
+      fetch: fetchMock,
+      cache: { ttl: 1000 },
+    });
+
+    await client.integrations.get('stripe');
+    vi.advanceTimersByTime(1001);
+    const { data, response } = await client.integrations.get('stripe').withResponse();
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[1][1].headers['If-None-Match']).toBe('"v1"');
+    expect(data).toEqual(integration);
+    expect(response).toMatchObject({ status: 200, cached: true });
+
+    // The 304 makes the entry fresh again
+    await client.integrations.get('stripe');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should use per-resource TTLs', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse(integration));
+    const client = new WorkbenchClient({
+      apiKey: 'wbk_test_xxx',
+      fetch: fetchMock,
+      cache: { ttlByResource: { clients: 0 } },
+    });
+
+    await client.clients.get('cli_1');
+    await client.clients.get('cli_1');
+    await client.integrations.get('stripe');
+    await client.integrations.get('stripe');
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('should bypass the cache when cache is false for the call', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse(integration));
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock, cache: true });
+
+    await client.clients.get('cli_1');
+    await client.clients.get('cli_1', { cache: false });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should drop the cached resource after a write', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse(integration));
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock, cache: true });
+
+    await client.clients.get('cli_1');
+    await client.clients.update('cli_1', { first_name: 'Jane' });
+    await client.clients.get('cli_1');
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('should drop cached lists of the resource after a write', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () =>
+      jsonResponse({ data: [], meta: {}, pagination: { page: 1, per_page: 20, total: 0, total_pages: 0 } })
+    );
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock, cache: true });
+
+    await client.clients.list({ status: 'active' });
+    await client.clients.update('cli_1', { status: 'inactive' });
+    await client.clients.list({ status: 'active' });
+    await client.jobs.update('job_1', { status: 'completed' });
+    await client.clients.list({ status: 'active' });
+
+    expect(fetchMock.mock.calls.map(([url, init]) => `${init.method} ${new URL(url).pathname}`)).toEqual([
+      'GET /v1/clients',
+      'PUT /v1/clients/cli_1',
+      'GET /v1/clients',
+      'PUT /v1/jobs/job_1',
+    ]);
+  });
+
+  it('should use a custom store with credential-scoped keys', async () => {
+    const entries = new Map<string, CacheEntry>();
+    const store: CacheStore = {
+      get: async (key) => entries.get(key),
+      set: async (key, entry) => { entries.set(key, entry); },
+      delete: async (key) => { entries.delete(key); },
+    };
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse(integration));
+
+    await new WorkbenchClient({ apiKey: 'wbk_test_a', fetch: fetchMock, cache: { store } })
+      .integrations.get('stripe');
+    await new WorkbenchClient({ apiKey: 'wbk_test_b', fetch: fetchMock, cache: { store } })
+      .integrations.get('stripe');
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(entries.size).toBe(2);
+  });
+
+  it('should keep tokenProvider clients sharing a store apart', async () => {
+    const store = new MemoryCacheStore();
+    const fetchMock = vi.fn().mockImplementation(async (_url: string, init: RequestInit) => {
+      const tenant = (init.headers as Record<string, string>).Authorization.slice('Bearer '.length);
+      return jsonResponse({ data: { id: 'c1', tenant }, meta: {} });
+    });
+    const createTenantClient = (tenant: string) => new WorkbenchClient({
+      tokenProvider: async () => tenant,
+      fetch: fetchMock,
+      cache: { store, namespace: tenant },
+    });
+
+    await createTenantClient('tenant_a').clients.get('c1');
+    const { data } = await createTenantClient('tenant_b').clients.get('c1');
+
+    expect(data).toEqual({ id: 'c1', tenant: 'tenant_b' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(() => new WorkbenchClient({ tokenProvider: async () => 'tenant_a', cache: { store } }))
+      .toThrow('cache.namespace is required');
+    expect(() => new WorkbenchClient({ tokenProvider: async () => 'tenant_a', cache: true }))
+      .toThrow('cache.namespace is required');
+  });
+
+  it('should treat store errors as cache misses', async () => {
+    const store: CacheStore = {
+      get: async () => { throw new Error('Redis unavailable'); },
+      set: async () => { throw new Error('Redis unavailable'); },
+      delete: async () => undefined,
+    };
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse(integration));
+    const client = new WorkbenchClient({
+      apiKey: 'wbk_test_xxx',
+      fetch: fetchMock,
+      cache: { store },
+      logger,
+      logLevel: 'warn',
+    });
+
+    const { data } = await client.integrations.get('stripe');
+
+    expect(data).toEqual(integration.data);
+    expect(logger.warn).toHaveBeenCalledWith('Cache store error', expect.objectContaining({ error: 'Redis unavailable' }));
+  });
+});
+
+describe('MemoryCacheStore', () => {
+  it('should evict the least recently used entry', () => {
+    const store = new MemoryCacheStore(2);
+    const entry: CacheEntry = { body: '{}', status: 200, expiresAt: 0 };
+
+    store.set('a', entry);
+    store.set('b', entry);
+    store.get('a');
+    store.set('c', entry);
+
+    expect(store.size).toBe(2);
+    expect(store.get('a')).toBe(entry);
+    expect(store.get('b')).toBeUndefined();
+  });
+});
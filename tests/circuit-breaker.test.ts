@@ -0,0 +1,161 @@
+/**
+ * @fileoverview Circuit breaker tests
+ *
+ * Tests the optional circuit breaker to ensure:
+ * - The circuit opens once the failure rate reaches the threshold
+ * - Calls fail fast with CircuitOpenError while open, without retrying
+ * - A half-open probe closes or re-opens the circuit
+ * - 4xx responses do not count as failures and state changes are emitted
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WorkbenchClient } from '../src/client.js';
+import { CircuitOpenError } from '../src/errors.js';
+import type { CircuitStateChangeEvent } from '../src/types/index.js';
+import { jsonResponse, skipSleep } from './helpers.js';
+
+// =============================================================================
+// TEST SETUP
+// =============================================================================
+
+const serverError = () => jsonResponse({ error: { code: 'INTERNAL_ERROR', message: 'Oops' } }, 500);
+const ok = () => jsonResponse({ data: { id: 'job_1' }, meta: {} });
+
+/**
+ * Client with a breaker that opens after two failed attempts out of two
+ */
+function createClient(fetchMock: ReturnType<typeof vi.fn>) {
+  return new WorkbenchClient({
+    apiKey: 'wbk_test_xxx',
+    fetch: fetchMock,
+    maxRetries: 0,
+    circuitBreaker: { minimumRequests: 2, failureThreshold: 0.5, resetTimeout: 1000 },
+  });
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('Circuit breaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should open after the failure threshold and fail fast', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => serverError());
+    const client = createClient(fetchMock);
+
+    await client.jobs.get('job_1').catch(() => undefined);
+    await client.jobs.get('job_1').catch(() => undefined);
+    const error = await client.jobs.get('job_1').catch((e) => e);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(client.circuitState).toBe('open');
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error.code).toBe('CIRCUIT_OPEN');
+    expect(error.retryAfter).toBe(1000);
+  });
+
+  it('should stop retrying once the circuit opens', async () => {
+    skipSleep();
+    const fetchMock = vi.fn().mockImplementation(async () => serverError());
+    const client = new WorkbenchClient({
+      apiKey: 'wbk_test_xxx',
+      fetch: fetchMock,
+      maxRetries: 5,
+      circuitBreaker: { minimumRequests: 2 },
+    });
+
+    const error = await client.jobs.get('job_1').catch((e) => e);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(error).toBeInstanceOf(CircuitOpenError);
+  });
+
+  it('should not count 4xx responses as failures', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () =>
+      jsonResponse({ error: { code: 'NOT_FOUND', message: 'Job not found' } }, 404)
+    );
+    const client = createClient(fetchMock);
+
+    for (let i = 0; i < 3; i++) {
+      await client.jobs.get('missing').catch(() => undefined);
+    }
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(client.circuitState).toBe('closed');
+  });
+
+  it('should close after a successful half-open probe', async () => {
+    const fetchMock = vi.fn()
+      .mockImplementationOnce(async () => serverError())
+      .mockImplementationOnce(async () => serverError())
+      .mockImplementation(async () => ok());
+    const client = createClient(fetchMock);
+    const events: CircuitStateChangeEvent[] = [];
+    client.on('circuitStateChange', (event) => events.push(event));
+
+    await client.jobs.get('job_1').catch(() => undefined);
+    await client.jobs.get('job_1').catch(() => undefined);
+    vi.advanceTimersByTime(1000);
+
+    expect(client.circuitState).toBe('half-open');
+    await client.jobs.get('job_1');
+
+    expect(client.circuitState).toBe('closed');
+    expect(events.map(({ previous, state }) => `${previous}->${state}`)).toEqual([
+      'closed->open',
+      'open->half-open',
+      'half-open->closed',
+    ]);
+    expect(events[0].failureRate).toBe(1);
+  });
+
+  it('should re-open after a failed probe', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => serverError());
+    const client = createClient(fetchMock);
+
+    await client.jobs.get('job_1').catch(() => undefined);
+    await client.jobs.get('job_1').catch(() => undefined);
+    vi.advanceTimersByTime(1000);
+    await client.jobs.get('job_1').catch(() => undefined);
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(client.circuitState).toBe('open');
+  });
+
+  it('should let only one probe through while half-open', async () => {
+    const fetchMock = vi.fn()
+      .mockImplementationOnce(async () => serverError())
+      .mockImplementationOnce(async () => serverError())
+      .mockImplementation(async () => ok());
+    const client = createClient(fetchMock);
+
+    await client.jobs.get('job_1').catch(() => undefined);
+    await client.jobs.get('job_1').catch(() => undefined);
+    vi.advanceTimersByTime(1000);
+
+    const results = await Promise.allSettled([client.jobs.get('job_1'), client.jobs.get('job_2')]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(results.map((r) => r.status)).toEqual(['fulfilled', 'rejected']);
+  });
+
+  it('should be disabled by default', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => serverError());
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock, maxRetries: 0 });
+
+    for (let i = 0; i < 12; i++) {
+      await client.jobs.get('job_1').catch(() => undefined);
+    }
+
+    expect(fetchMock).toHaveBeenCalledTimes(12);
+    expect(client.circuitState).toBe('closed');
+  });
+});
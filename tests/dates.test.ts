@@ -0,0 +1,106 @@
+/**
+ * @fileoverview Date hydration tests
+ *
+ * Tests the `dates` option to ensure:
+ * - Timestamp fields become Date and date-only fields become DateOnly
+ * - Strings are kept by default and for values that cannot be parsed
+ * - Date and DateOnly values in request bodies are serialized correctly
+ * - DateOnly parses, validates and formats calendar dates
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { WorkbenchClient } from '../src/client.js';
+import { DateOnly, hydrateDates } from '../src/utils/dates.js';
+import { jsonResponse } from './helpers.js';
+
+// =============================================================================
+// TEST SETUP
+// =============================================================================
+
+const invoice = {
+  id: 'inv_1',
+  status: 'sent',
+  issue_date: '2024-01-15',
+  due_date: '2024-02-15',
+  sent_at: '2024-01-15T10:30:00Z',
+  paid_at: null,
+  items: [{ description: 'Service', quantity: 1, unit_price: 100 }],
+  client: { id: 'cli_1', created_at: '2023-12-01T08:00:00Z', next_contact_date: null },
+  created_at: '2024-01-15T10:00:00Z',
+  updated_at: null,
+};
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('Date hydration', () => {
+  it('should keep strings by default', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse({ data: invoice, meta: {} }));
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    const { data } = await client.invoices.get('inv_1');
+
+    expect(data.created_at).toBe('2024-01-15T10:00:00Z');
+    expect(data.due_date).toBe('2024-02-15');
+  });
+
+  it('should convert timestamps to Date and date-only fields to DateOnly', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse({ data: invoice, meta: {} }));
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock, dates: 'date' });
+
+    const { data } = await client.invoices.get('inv_1');
+
+    expect(data.created_at).toEqual(new Date('2024-01-15T10:00:00Z'));
+    expect(data.sent_at).toEqual(new Date('2024-01-15T10:30:00Z'));
+    expect(data.paid_at).toBeNull();
+    expect(data.due_date).toBeInstanceOf(DateOnly);
+    expect(data.due_date?.toString()).toBe('2024-02-15');
+    expect(data.client?.created_at).toBeInstanceOf(Date);
+  });
+
+  it('should hydrate list items and leave unparseable values as strings', () => {
+    const body = hydrateDates({
+      data: [{ created_at: 'not a date', due_date: 'soon', title: '2024-01-15T10:00:00Z' }],
+    });
+
+    expect(body.data[0]).toEqual({ created_at: 'not a date', due_date: 'soon', title: '2024-01-15T10:00:00Z' });
+  });
+
+  it('should serialize Date and DateOnly values in request bodies', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse({ data: invoice, meta: {} }));
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    await client.invoices.update('inv_1', {
+      issue_date: new Date('2024-03-01T23:00:00Z'),
+      due_date: new DateOnly(2024, 4, 1),
+    });
+    await client.jobs.update('job_1', { scheduled_start: new Date('2024-03-01T09:00:00Z') });
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({
+      issue_date: '2024-03-01',
+      due_date: '2024-04-01',
+    });
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toEqual({
+      scheduled_start: '2024-03-01T09:00:00.000Z',
+    });
+  });
+});
+
+describe('DateOnly', () => {
+  it('should parse and format calendar dates', () => {
+    const date = DateOnly.parse('2024-02-29');
+
+    expect(date).toMatchObject({ year: 2024, month: 2, day: 29 });
+    expect(date.toString()).toBe('2024-02-29');
+    expect(JSON.stringify({ date })).toBe('{"date":"2024-02-29"}');
+    expect(date.toDate()).toEqual(new Date('2024-02-29T00:00:00Z'));
+    expect(date.equals(DateOnly.fromDate(new Date('2024-02-29T18:00:00Z')))).toBe(true);
+  });
+
+  it('should reject dates that do not exist', () => {
+    expect(() => DateOnly.parse('2023-02-29')).toThrow(RangeError);
+    expect(() => DateOnly.parse('tomorrow')).toThrow(RangeError);
+    expect(() => new DateOnly(2024, 13, 1)).toThrow(RangeError);
+  });
+});
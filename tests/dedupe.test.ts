@@ -0,0 +1,153 @@
+/**
+ * @fileoverview Request deduplication tests
+ *
+ * Tests in-flight GET deduplication to ensure:
+ * - Concurrent identical GETs share one fetch and its result or error
+ * - Different queries, per-call options, mutating methods and calls with a signal are not shared
+ * - Every caller receives its own copy of the shared body
+ * - Deduplication can be disabled
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { WorkbenchClient } from '../src/client.js';
+import { jsonResponse } from './helpers.js';
+
+// =============================================================================
+// TEST SETUP
+// =============================================================================
+
+const client = { data: { id: 'cli_1', first_name: 'Jane' }, meta: {} };
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('Request deduplication', () => {
+  it('should share one fetch between concurrent identical GETs', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse(client));
+    const workbench = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    const results = await Promise.all([
+      workbench.clients.get('cli_1'),
+      workbench.clients.get('cli_1'),
+      workbench.clients.get('cli_1'),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(results).toEqual([client, client, client]);
+  });
+
+  it('should send a new request once the shared one has settled', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse(client));
+    const workbench = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    await workbench.clients.get('cli_1');
+    await workbench.clients.get('cli_1');
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should share errors with every caller', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () =>
+      jsonResponse({ error: { code: 'NOT_FOUND', message: 'Client not found' } }, 404)
+    );
+    const workbench = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    const errors = await Promise.all([
+      workbench.clients.get('missing').catch((e) => e),
+      workbench.clients.get('missing').catch((e) => e),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(errors.map((e) => e.status)).toEqual([404, 404]);
+  });
+
+  it('should give each caller its own copy of the shared body', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse(client));
+    const workbench = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    const [first, second] = await Promise.all([workbench.clients.get('cli_1'), workbench.clients.get('cli_1')]);
+    first.data.first_name = 'Changed';
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(second.data.first_name).toBe('Jane');
+  });
+
+  it('should not share requests with different headers', async () => {
+    const fetchMock = vi.fn().mockImplementation(async (_url: string, init: RequestInit) =>
+      jsonResponse({ data: { tenant: (init.headers as Record<string, string>)['X-Tenant'] }, meta: {} })
+    );
+    const workbench = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    const [a, b] = await Promise.all([
+      workbench.clients.get('cli_1', { headers: { 'X-Tenant': 'a' } }),
+      workbench.clients.get('cli_1', { headers: { 'X-Tenant': 'b' } }),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect([a.data, b.data]).toEqual([{ tenant: 'a' }, { tenant: 'b' }]);
+  });
+
+  it('should not share a cache-bypassing read with a cached one', async () => {
+    let status = 'draft';
+    const fetchMock = vi.fn().mockImplementation(async (_url: string, init: RequestInit) =>
+      jsonResponse({ data: { id: 'quote_1', quote_number: 'Q-001', status: init.method === 'PUT' ? 'viewed' : status }, meta: {} })
+    );
+    const workbench = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock, cache: true });
+    await workbench.quotes.get('quote_1');
+    status = 'sent';
+
+    const [cached, viewed] = await Promise.all([
+      workbench.quotes.get('quote_1'),
+      workbench.quotes.markViewed('quote_1'),
+    ]);
+
+    expect(cached.data.status).toBe('draft');
+    expect(viewed.data.status).toBe('viewed');
+  });
+
+  it('should not share requests with a different query', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse({ data: [], meta: {} }));
+    const workbench = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    await Promise.all([
+      workbench.clients.list({ page: 1 }),
+      workbench.clients.list({ page: 2 }),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should never share mutating requests', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse(client));
+    const workbench = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    await Promise.all([
+      workbench.clients.update('cli_1', { first_name: 'Jane' }),
+      workbench.clients.update('cli_1', { first_name: 'Jane' }),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not share calls that have their own signal', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse(client));
+    const workbench = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    await Promise.all([
+      workbench.clients.get('cli_1'),
+      workbench.clients.get('cli_1', { signal: new AbortController().signal }),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not share requests when dedupeRequests is false', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse(client));
+    const workbench = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock, dedupeRequests: false });
+
+    await Promise.all([workbench.clients.get('cli_1'), workbench.clients.get('cli_1')]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
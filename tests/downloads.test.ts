@@ -0,0 +1,115 @@
+/**
+ * @fileoverview Binary download tests
+ *
+ * Tests PDF downloads to ensure:
+ * - downloadPdf() resolves to a Buffer of the response bytes
+ * - downloadPdfStream() resolves to an unread ReadableStream
+ * - Error responses are still parsed as JSON API errors and retried
+ * - Binary responses bypass the cache, deduplication and date hydration
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { WorkbenchClient } from '../src/client.js';
+import { NotFoundError } from '../src/errors.js';
+import { jsonResponse, skipSleep } from './helpers.js';
+
+// =============================================================================
+// TEST SETUP
+// =============================================================================
+
+const PDF_BYTES = Buffer.from('%PDF-1.7\n%\xe2\xe3\xcf\xd3\n1 0 obj\n', 'latin1');
+
+/**
+ * Creates a real Response with a PDF body
+ */
+function pdfResponse(): Response {
+  return new Response(PDF_BYTES, {
+    status: 200,
+    headers: { 'Content-Type': 'application/pdf', 'X-Request-Id': 'req_pdf' },
+  });
+}
+
+/**
+ * Read a web stream to the end
+ */
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<Buffer> {
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of stream as unknown as AsyncIterable<Uint8Array>) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('PDF downloads', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should download an invoice PDF as a Buffer', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => pdfResponse());
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    const { data: pdf, response } = await client.invoices.downloadPdf('inv_1').withResponse();
+
+    expect(Buffer.isBuffer(pdf)).toBe(true);
+    expect(pdf.equals(PDF_BYTES)).toBe(true);
+    expect(response.requestId).toBe('req_pdf');
+    expect(fetchMock.mock.calls[0][0]).toBe('https://api.tryworkbench.app/v1/invoices/inv_1/pdf');
+    expect(fetchMock.mock.calls[0][1].headers.Accept).toBe('application/pdf');
+  });
+
+  it('should stream a quote PDF', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => pdfResponse());
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    const stream = await client.quotes.downloadPdfStream('quote_1');
+
+    expect(stream).toBeInstanceOf(ReadableStream);
+    expect((await readAll(stream)).equals(PDF_BYTES)).toBe(true);
+    expect(fetchMock.mock.calls[0][0]).toContain('/v1/quotes/quote_1/pdf');
+  });
+
+  it('should parse error responses as API errors', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () =>
+      jsonResponse({ error: { code: 'NOT_FOUND', message: 'Invoice not found' } }, 404)
+    );
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    const error = await client.invoices.downloadPdf('inv_missing').catch((e) => e);
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error.message).toBe('Invoice not found');
+  });
+
+  it('should retry server errors before the download succeeds', async () => {
+    skipSleep();
+    const fetchMock = vi.fn()
+      .mockImplementationOnce(async () => jsonResponse({ error: { code: 'SERVER_ERROR', message: 'Unavailable' } }, 503))
+      .mockImplementation(async () => pdfResponse());
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    const { data, response } = await client.invoices.downloadPdf('inv_1').withResponse();
+
+    expect(data.equals(PDF_BYTES)).toBe(true);
+    expect(response.attempts).toBe(2);
+  });
+
+  it('should bypass the cache, deduplication and date hydration', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => pdfResponse());
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock, cache: true, dates: 'date' });
+
+    const [first, second] = await Promise.all([
+      client.invoices.downloadPdf('inv_1'),
+      client.invoices.downloadPdf('inv_1'),
+    ]);
+    const third = await client.invoices.downloadPdf('inv_1');
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(first).not.toBe(second);
+    expect(Buffer.isBuffer(third)).toBe(true);
+  });
+});
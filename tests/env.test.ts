@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Environment configuration tests
+ *
+ * Tests WorkbenchClient.fromEnv() and readEnvConfig() to ensure:
+ * - Documented variables map to client settings
+ * - Custom prefixes are supported
+ * - Invalid values fail with clear errors
+ * - maxRetries=0 disables retries instead of falling back to the default
+ * - Explicit credentials replace the credential variables
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { WorkbenchClient } from '../src/client.js';
+import { readEnvConfig } from '../src/utils/env.js';
+import { jsonResponse } from './helpers.js';
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('readEnvConfig()', () => {
+  it('should map documented variables to settings', () => {
+    expect(readEnvConfig('WORKBENCH', {
+      WORKBENCH_API_KEY: 'wbk_test_xxx',
+      WORKBENCH_BASE_URL: 'https://sandbox.tryworkbench.app',
+      WORKBENCH_TIMEOUT: '60000',
+      WORKBENCH_MAX_RETRIES: '0',
+      WORKBENCH_REQUIRE_TEST_MODE: 'true',
+    })).toEqual({
+      apiKey: 'wbk_test_xxx',
+      baseUrl: 'https://sandbox.tryworkbench.app',
+      timeout: 60000,
+      maxRetries: 0,
+      requireTestMode: true,
+    });
+  });
+
+  it('should read OAuth refresh settings', () => {
+    expect(readEnvConfig('WORKBENCH', {
+      WORKBENCH_REFRESH_TOKEN: 'refresh-123',
+      WORKBENCH_CLIENT_ID: 'client-abc',
+      WORKBENCH_CLIENT_SECRET: 'secret-xyz',
+    })).toEqual({
+      refreshToken: 'refresh-123',
+      oauthClient: { clientId: 'client-abc', clientSecret: 'secret-xyz' },
+    });
+  });
+
+  it('should support custom prefixes', () => {
+    expect(readEnvConfig('BILLING_', { BILLING_API_KEY: 'wbk_test_billing' })).toEqual({
+      apiKey: 'wbk_test_billing',
+    });
+  });
+
+  it.each([
+    [{}, /Missing credentials: set WORKBENCH_API_KEY or WORKBENCH_ACCESS_TOKEN/],
+    [{ WORKBENCH_API_KEY: 'k', WORKBENCH_TIMEOUT: '30s' }, /WORKBENCH_TIMEOUT must be an integer of at least 1 \(got "30s"\)/],
+    [{ WORKBENCH_API_KEY: 'k', WORKBENCH_TIMEOUT: '3000000000' }, /WORKBENCH_TIMEOUT must be at most 2147483647/],
+    [{ WORKBENCH_API_KEY: 'k', WORKBENCH_MAX_RETRIES: '-1' }, /WORKBENCH_MAX_RETRIES must be an integer of at least 0/],
+    [{ WORKBENCH_API_KEY: 'k', WORKBENCH_BASE_URL: 'not a url' }, /WORKBENCH_BASE_URL must be a valid URL/],
+    [{ WORKBENCH_API_KEY: 'k', WORKBENCH_REQUIRE_TEST_MODE: 'maybe' }, /WORKBENCH_REQUIRE_TEST_MODE must be true or false/],
+    [{ WORKBENCH_REFRESH_TOKEN: 'r' }, /WORKBENCH_CLIENT_ID is required/],
+  ])('should reject invalid configuration %o', (env, message) => {
+    expect(() => readEnvConfig('WORKBENCH', env)).toThrow(message);
+  });
+});
+
+describe('WorkbenchClient.fromEnv()', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('should create a client from process.env', () => {
+    vi.stubEnv('WORKBENCH_API_KEY', 'wbk_test_env');
+
+    expect(WorkbenchClient.fromEnv().mode).toBe('test');
+  });
+
+  it('should use explicit credentials without credential variables', () => {
+    vi.stubEnv('WORKBENCH_ACCESS_TOKEN', 'env_token');
+    vi.stubEnv('WORKBENCH_TIMEOUT', '60000');
+    vi.stubEnv('OTHER_BASE_URL', 'https://eu.tryworkbench.app');
+
+    expect(WorkbenchClient.fromEnv('WORKBENCH', { apiKey: 'wbk_test_explicit' }).mode).toBe('test');
+    expect(WorkbenchClient.fromEnv('OTHER', { tokenProvider: async () => 'tok' }).mode).toBe('oauth');
+    expect(readEnvConfig('WORKBENCH', process.env, false)).toEqual({ timeout: 60000 });
+  });
+
+  it('should not retry when WORKBENCH_MAX_RETRIES is 0', async () => {
+    vi.stubEnv('WORKBENCH_API_KEY', 'wbk_test_env');
+    vi.stubEnv('WORKBENCH_MAX_RETRIES', '0');
+    const fetchMock = vi.fn().mockImplementation(async () =>
+      jsonResponse({ error: { code: 'INTERNAL_ERROR', message: 'Oops' } }, 500)
+    );
+
+    const client = WorkbenchClient.fromEnv(undefined, { fetch: fetchMock });
+
+    await expect(client.clients.list()).rejects.toThrow('Oops');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * @fileoverview Error hierarchy tests
+ *
+ * Tests that failed requests surface as typed errors:
+ * - HTTP status codes map to the matching WorkbenchError subclass
+ * - Validation details are grouped by field
+ * - Timeouts and network failures have their own classes
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WorkbenchClient } from '../src/client.js';
+import {
+  WorkbenchError,
+  AuthenticationError,
+  PermissionError,
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+  ConnectionError,
+} from '../src/errors.js';
+import { jsonResponse, skipSleep } from './helpers.js';
+
+// =============================================================================
+// TEST SETUP
+// =============================================================================
+
+/**
+ * Creates an API error body
+ */
+function errorBody(code: string, message: string, details?: Array<{ field: string; message: string }>) {
+  return { error: { code, message, details }, meta: { request_id: 'req-err' } };
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('Error hierarchy', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let client: WorkbenchClient;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    skipSleep();
+    client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock, maxRetries: 1 });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it.each([
+    [401, 'UNAUTHORIZED', AuthenticationError],
+    [403, 'FORBIDDEN', PermissionError],
+    [404, 'NOT_FOUND', NotFoundError],
+    [409, 'CONFLICT', ConflictError],
+    [500, 'INTERNAL_ERROR', ServerError],
+    [503, 'SERVICE_UNAVAILABLE', ServerError],
+  ])('should map status %i to the matching error class', async (status, code, ErrorClass) => {
+    fetchMock.mockImplementation(async () => jsonResponse(errorBody(code, 'Failed'), status));
+
+    const error = await client.clients.get('client-123').catch((e) => e);
+
+    expect(error).toBeInstanceOf(ErrorClass);
+    expect(error).toBeInstanceOf(WorkbenchError);
+    expect(error).toMatchObject({ status, code, requestId: 'req-err' });
+  });
+
+  it('should group validation details by field', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse(errorBody('VALIDATION_ERROR', 'Invalid input', [
+      { field: 'email', message: 'Email is invalid' },
+      { field: 'email', message: 'Email is taken' },
+      { field: 'first_name', message: 'First name is required' },
+    ]), 422));
+
+    const error = await client.clients.create({ first_name: '' }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.status).toBe(422);
+    expect(error.fields).toEqual({
+      email: ['Email is invalid', 'Email is taken'],
+      first_name: ['First name is required'],
+    });
+  });
+
+  it('should expose Retry-After on rate limit errors', async () => {
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse(errorBody('RATE_LIMITED', 'Too many requests'), 429, { 'Retry-After': '120' })
+    );
+
+    const error = await client.clients.list().catch((e) => e);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfter).toBe(120000);
+  });
+
+  it('should throw TimeoutError when the request times out', async () => {
+    fetchMock.mockImplementation((_url: string, init: RequestInit) => new Promise((_, reject) => {
+      init.signal?.addEventListener('abort', () => {
+        reject(Object.assign(new Error('aborted'), { name: 'AbortError' }));
+      });
+    }));
+
+    const error = await client.clients.get('client-123', { timeout: 5, maxRetries: 0 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.code).toBe('TIMEOUT');
+  });
+
+  it('should wrap network failures in ConnectionError', async () => {
+    const cause = new TypeError('fetch failed');
+    fetchMock.mockRejectedValue(cause);
+
+    const error = await client.clients.get('client-123').catch((e) => e);
+
+    expect(error).toBeInstanceOf(ConnectionError);
+    expect(error.code).toBe('NETWORK_ERROR');
+    expect(error.cause).toBe(cause);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
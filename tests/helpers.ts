@@ -0,0 +1,49 @@
+/**
+ * @fileoverview Shared test helpers
+ *
+ * Response builders, fetch mocks and timer stubs used across the test suite.
+ */
+
+import { vi } from 'vitest';
+import { WorkbenchClient } from '../src/client.js';
+
+/**
+ * Creates a real Response with a JSON body
+ */
+export function jsonResponse(data: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+/**
+ * Answers one route of a route mock, given the parsed JSON request body
+ */
+export type RouteHandler = (body: Record<string, unknown>, init: RequestInit) => Response;
+
+/**
+ * Fetch mock that answers by method and path, e.g. `'PUT /v1/quotes/quote_1'`
+ *
+ * Requests to any other route get a 404 NOT_FOUND API error.
+ */
+export function createRouteMock(routes: Record<string, RouteHandler>) {
+  return vi.fn(async (url: string, init: RequestInit) => {
+    const handler = routes[`${init.method} ${new URL(url).pathname}`];
+    const body = init.body ? JSON.parse(init.body as string) : {};
+    return handler
+      ? handler(body, init)
+      : jsonResponse({ error: { code: 'NOT_FOUND', message: 'Not found' } }, 404);
+  });
+}
+
+/**
+ * Makes the client's retry and backoff waits resolve without delay
+ *
+ * Returns the spy so tests can check the requested delays; pass `wait` to
+ * control when a wait ends. Undone by `vi.restoreAllMocks()`.
+ */
+export function skipSleep(wait: (ms: number) => Promise<unknown> = async () => undefined) {
+  const prototype = WorkbenchClient.prototype as unknown as { sleep: (ms: number, signal?: AbortSignal) => Promise<unknown> };
+  return vi.spyOn(prototype, 'sleep').mockImplementation(wait);
+}
@@ -14,17 +14,20 @@ import { WorkbenchClient } from '../src/client.js';
 // TEST SETUP
 // =============================================================================
 
-// Mock fetch globally
+// Fetch passed to every client as its transport
 const mockFetch = vi.fn();
-global.fetch = mockFetch;
 
 /**
  * Creates a mock API response
  */
-function createMockResponse(data: unknown, options: { status?: number; ok?: boolean } = {}) {
+function createMockResponse(
+  data: unknown,
+  options: { status?: number; ok?: boolean; headers?: Record<string, string> } = {}
+) {
   return {
     ok: options.ok ?? true,
     status: options.status ?? 200,
+    headers: new Headers(options.headers),
     text: vi.fn().mockResolvedValue(JSON.stringify(data)),
   };
 }
@@ -81,7 +84,7 @@ describe('IntegrationsResource', () => {
 
   beforeEach(() => {
     mockFetch.mockClear();
-    client = new WorkbenchClient({ apiKey: 'wbk_test_xxx' });
+    client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: mockFetch });
   });
 
   afterEach(() => {
@@ -0,0 +1,146 @@
+/**
+ * @fileoverview Invoice payments tests
+ *
+ * Tests InvoicePaymentsResource to ensure:
+ * - Payments are listed, recorded, refunded and deleted on the right endpoints
+ * - The recalculated invoice is returned with each payment change
+ * - Payment changes invalidate the cached invoice
+ * - A fully paid invoice can drive a locally signed invoice.paid webhook
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { WorkbenchClient } from '../src/client.js';
+import { constructWebhookEvent, generateSignatureHeader } from '../src/utils/webhook-verify.js';
+import { jsonResponse } from './helpers.js';
+
+// =============================================================================
+// TEST SETUP
+// =============================================================================
+
+/**
+ * In-memory API holding one invoice for $300 and its payments
+ *
+ * Recalculates amount_paid and status the way the API does.
+ */
+function createPaymentsApi() {
+  const invoice = { id: 'inv_1', invoice_number: 'INV-001', status: 'sent', total: 300, amount_paid: 0, paid_at: null as string | null };
+  const payments: Array<Record<string, unknown> & { id: string; amount: number; refunded_amount: number }> = [];
+
+  const recalculate = () => {
+    invoice.amount_paid = payments.reduce((sum, payment) => sum + payment.amount - payment.refunded_amount, 0);
+    invoice.status = invoice.amount_paid >= invoice.total ? 'paid' : invoice.amount_paid > 0 ? 'partial' : 'sent';
+    invoice.paid_at = invoice.status === 'paid' ? '2024-01-20T14:00:00Z' : null;
+    return { ...invoice };
+  };
+
+  const fetchMock = vi.fn(async (url: string, init: RequestInit) => {
+    const path = new URL(url).pathname;
+    const body = init.body ? JSON.parse(init.body as string) : {};
+    const paymentId = path.split('/')[5];
+    const payment = payments.find((p) => p.id === paymentId);
+
+    if (init.method === 'GET' && path === '/v1/invoices/inv_1') {
+      return jsonResponse({ data: { ...invoice }, meta: {} });
+    }
+    if (init.method === 'GET' && path === '/v1/invoices/inv_1/payments') {
+      return jsonResponse({ data: payments, meta: {}, pagination: { page: 1, per_page: 20, total: payments.length, total_pages: 1 } });
+    }
+    if (init.method === 'POST' && path === '/v1/invoices/inv_1/payments') {
+      const created = { id: `pay_${payments.length + 1}`, invoice_id: 'inv_1', refunded_amount: 0, ...body };
+      payments.push(created);
+      return jsonResponse({ data: { payment: created, invoice: recalculate() }, meta: {} }, 201);
+    }
+    if (init.method === 'POST' && payment && path.endsWith('/refund')) {
+      payment.refunded_amount += body.amount ?? payment.amount - payment.refunded_amount;
+      return jsonResponse({ data: { payment, invoice: recalculate() }, meta: {} });
+    }
+    if (init.method === 'DELETE' && payment) {
+      payments.splice(payments.indexOf(payment), 1);
+      return jsonResponse({ data: { payment, invoice: recalculate() }, meta: {} });
+    }
+    return jsonResponse({ error: { code: 'NOT_FOUND', message: 'Not found' } }, 404);
+  });
+
+  return { fetchMock };
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('InvoicePaymentsResource', () => {
+  it('should record payments and return the recalculated invoice', async () => {
+    const { fetchMock } = createPaymentsApi();
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    const first = await client.invoices.payments.create('inv_1', { amount: 100, method: 'check', reference: '#1042' });
+    const second = await client.invoices.payments.create('inv_1', { amount: 200, method: 'card' });
+
+    expect(fetchMock.mock.calls[0][0]).toBe('https://api.tryworkbench.app/v1/invoices/inv_1/payments');
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body as string)).toEqual({
+      amount: 100,
+      method: 'check',
+      reference: '#1042',
+    });
+    expect(first.data.invoice).toMatchObject({ status: 'partial', amount_paid: 100 });
+    expect(second.data.invoice).toMatchObject({ status: 'paid', amount_paid: 300 });
+  });
+
+  it('should list, refund and delete payments', async () => {
+    const { fetchMock } = createPaymentsApi();
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+    await client.invoices.payments.create('inv_1', { amount: 300, method: 'cash' });
+
+    const { data: payments } = await client.invoices.payments.list('inv_1', { per_page: 50 });
+    const partial = await client.invoices.payments.refund('inv_1', 'pay_1', { amount: 50, reason: 'Discount' });
+    const removed = await client.invoices.payments.delete('inv_1', 'pay_1');
+
+    expect(payments).toHaveLength(1);
+    expect(fetchMock.mock.calls[1][0]).toContain('/v1/invoices/inv_1/payments?per_page=50');
+    expect(fetchMock.mock.calls[2][0]).toContain('/v1/invoices/inv_1/payments/pay_1/refund');
+    expect(partial.data.payment.refunded_amount).toBe(50);
+    expect(partial.data.invoice).toMatchObject({ status: 'partial', amount_paid: 250 });
+    expect(fetchMock.mock.calls[3][1].method).toBe('DELETE');
+    expect(removed.data.invoice).toMatchObject({ status: 'sent', amount_paid: 0 });
+  });
+
+  it('should refund the rest of the payment by default', async () => {
+    const { fetchMock } = createPaymentsApi();
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+    await client.invoices.payments.create('inv_1', { amount: 300, method: 'cash' });
+
+    const { data } = await client.invoices.payments.refund('inv_1', 'pay_1');
+
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body as string)).toEqual({});
+    expect(data.invoice.status).toBe('sent');
+  });
+
+  it('should drop the cached invoice when a payment changes it', async () => {
+    const { fetchMock } = createPaymentsApi();
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock, cache: true });
+
+    await client.invoices.get('inv_1');
+    await client.invoices.payments.create('inv_1', { amount: 100, method: 'cash' });
+    const { data: invoice } = await client.invoices.get('inv_1');
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(invoice.status).toBe('partial');
+  });
+
+  it('should support testing an invoice.paid handler locally', async () => {
+    const { fetchMock } = createPaymentsApi();
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+    const { data } = await client.invoices.payments.create('inv_1', { amount: 300, method: 'bank_transfer' });
+
+    const payload = JSON.stringify({ event: 'invoice.paid', data: data.invoice, timestamp: '2024-01-20T14:00:00Z' });
+    const event = constructWebhookEvent<{ id: string; status: string }>(
+      payload,
+      generateSignatureHeader(payload, 'whsec_test'),
+      'whsec_test'
+    );
+
+    expect(event.event).toBe('invoice.paid');
+    expect(event.data).toMatchObject({ id: 'inv_1', status: 'paid' });
+    expect(generateSignatureHeader(payload, 'whsec_test', 1706400000)).toMatch(/^t=1706400000,v1=[0-9a-f]{64}$/);
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * @fileoverview Invoice resource tests
+ *
+ * Tests InvoicesResource lifecycle methods to ensure:
+ * - void/markPaid/sendReminder send the right request for allowed statuses
+ * - Illegal status changes are rejected with InvalidStateError before any write
+ * - Lifecycle methods return WorkbenchPromises carrying the write's response
+ * - markPaid() pays the outstanding balance rounded to cents
+ * - duplicate() creates a draft copy of the current invoice without dates, payments or quote link
+ */
+
+import { describe, it, expect } from 'vitest';
+import { WorkbenchClient } from '../src/client.js';
+import { InvalidStateError } from '../src/errors.js';
+import { createRouteMock, jsonResponse } from './helpers.js';
+
+// =============================================================================
+// TEST SETUP
+// =============================================================================
+
+/**
+ * An invoice record in the given status
+ */
+function createInvoice(status: string) {
+  return {
+    id: 'inv_1',
+    client_id: 'cli_1',
+    job_id: 'job_1',
+    quote_id: 'quote_1',
+    invoice_number: 'INV-001',
+    status,
+    issue_date: '2024-01-15',
+    due_date: '2024-02-15',
+    total: 300,
+    amount_paid: 100,
+    tax_rate: 8.5,
+    discount_amount: null,
+    notes: 'Thanks!',
+    terms: 'Net 30',
+    items: [{ id: 'item_1', description: 'Consulting', quantity: 2, unit_price: 150, sort_order: 0 }],
+  };
+}
+
+/**
+ * Fetch mock serving the invoice in the given status
+ */
+function createApiMock(invoiceStatus: string) {
+  return createRouteMock({
+    'GET /v1/invoices/inv_1': () => jsonResponse({ data: createInvoice(invoiceStatus), meta: {} }),
+    'PUT /v1/invoices/inv_1': (body) => jsonResponse({ data: { ...createInvoice(invoiceStatus), ...body }, meta: {} }),
+    'POST /v1/invoices': (body) => jsonResponse({ data: { id: 'inv_2', invoice_number: 'INV-002', ...body }, meta: {} }, 201),
+    'POST /v1/invoices/inv_1/payments': (body) => jsonResponse({
+      data: { payment: { id: 'pay_1', ...body }, invoice: { ...createInvoice('paid'), amount_paid: 300 } },
+      meta: {},
+    }, 201),
+    'POST /v1/invoices/inv_1/remind': () => jsonResponse({ data: { message: 'Reminder sent', invoice_id: 'inv_1' }, meta: {} }),
+  });
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('InvoicesResource lifecycle', () => {
+  it('should void an invoice with the reason', async () => {
+    const fetchMock = createApiMock('overdue');
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    const { data } = await client.invoices.void('inv_1', 'Billed to the wrong client');
+
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body as string)).toEqual({
+      status: 'voided',
+      voided_at: expect.any(String),
+      void_reason: 'Billed to the wrong client',
+    });
+    expect(data.status).toBe('voided');
+  });
+
+  it('should mark an invoice paid by recording the outstanding balance', async () => {
+    const fetchMock = createApiMock('partial');
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    const { payment, invoice } = await client.invoices.markPaid('inv_1', {
+      paidAt: new Date('2024-01-20T14:00:00Z'),
+      reference: 'TXN-1',
+    });
+
+    expect(fetchMock.mock.calls[1][0]).toContain('/v1/invoices/inv_1/payments');
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body as string)).toEqual({
+      amount: 200,
+      method: 'other',
+      reference: 'TXN-1',
+      received_at: '2024-01-20T14:00:00.000Z',
+    });
+    expect(payment.id).toBe('pay_1');
+    expect(invoice.status).toBe('paid');
+  });
+
+  it('should pay the balance rounded to cents', async () => {
+    const fetchMock = createRouteMock({
+      'GET /v1/invoices/inv_1': () => jsonResponse({
+        data: { ...createInvoice('partial'), total: 1234.56, amount_paid: 1000.11 },
+        meta: {},
+      }),
+      'POST /v1/invoices/inv_1/payments': (body) => jsonResponse({
+        data: { payment: { id: 'pay_1', ...body }, invoice: createInvoice('paid') },
+        meta: {},
+      }, 201),
+    });
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    await client.invoices.markPaid('inv_1');
+
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body as string).amount).toBe(234.45);
+  });
+
+  it('should send reminders for unpaid invoices', async () => {
+    const fetchMock = createApiMock('viewed');
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    const { data } = await client.invoices.sendReminder('inv_1');
+
+    expect(fetchMock.mock.calls[1][1].method).toBe('POST');
+    expect(fetchMock.mock.calls[1][0]).toContain('/v1/invoices/inv_1/remind');
+    expect(data.message).toBe('Reminder sent');
+  });
+
+  it('should expose the response of the write', async () => {
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: createApiMock('sent') });
+
+    const voided = await client.invoices.void('inv_1', 'Wrong client').withResponse();
+    const paid = await client.invoices.markPaid('inv_1').withResponse();
+    const copyId = await client.invoices.duplicate('inv_1').map(({ data }) => data.id);
+
+    expect(voided.data.data.status).toBe('voided');
+    expect(voided.response.status).toBe(200);
+    expect(paid.data.payment.id).toBe('pay_1');
+    expect(paid.response.status).toBe(201);
+    expect(copyId).toBe('inv_2');
+  });
+
+  it('should reject illegal status changes without writing', async () => {
+    const fetchMock = createApiMock('voided');
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    const error = await client.invoices.void('inv_1', 'Again').catch((e) => e);
+
+    expect(error).toBeInstanceOf(InvalidStateError);
+    expect(error.currentStatus).toBe('voided');
+    expect(error.allowedStatuses).toEqual(['draft', 'sent', 'viewed', 'overdue']);
+    expect(error.message).toBe(
+      "Invoice INV-001 cannot be voided: status is 'voided', expected 'draft', 'sent', 'viewed' or 'overdue'"
+    );
+    await expect(client.invoices.markPaid('inv_1')).rejects.toThrow(InvalidStateError);
+    await expect(client.invoices.sendReminder('inv_1')).rejects.toThrow("cannot be reminded: status is 'voided'");
+    expect(fetchMock.mock.calls.every(([, init]) => init.method === 'GET')).toBe(true);
+  });
+
+  it('should not remind or void paid invoices', async () => {
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: createApiMock('paid') });
+
+    await expect(client.invoices.sendReminder('inv_1')).rejects.toMatchObject({ code: 'INVALID_STATE' });
+    await expect(client.invoices.void('inv_1', 'Refunded')).rejects.toMatchObject({ code: 'INVALID_STATE' });
+  });
+
+  it('should duplicate an invoice as a draft', async () => {
+    const fetchMock = createApiMock('voided');
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    const { data } = await client.invoices.duplicate('inv_1', { due_date: '2024-03-01' });
+
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body as string)).toEqual({
+      client_id: 'cli_1',
+      job_id: 'job_1',
+      status: 'draft',
+      items: [{ description: 'Consulting', quantity: 2, unit_price: 150, sort_order: 0 }],
+      tax_rate: 8.5,
+      discount_amount: null,
+      notes: 'Thanks!',
+      terms: 'Net 30',
+      due_date: '2024-03-01',
+    });
+    expect(data.id).toBe('inv_2');
+  });
+
+  it('should duplicate the current invoice rather than a cached copy', async () => {
+    const fetchMock = createApiMock('sent');
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock, cache: true });
+
+    await client.invoices.get('inv_1');
+    await client.invoices.duplicate('inv_1');
+
+    expect(fetchMock.mock.calls.map(([, init]) => init.method)).toEqual(['GET', 'GET', 'POST']);
+  });
+});
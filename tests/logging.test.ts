@@ -0,0 +1,140 @@
+/**
+ * @fileoverview Logging tests
+ *
+ * Tests request logging to ensure:
+ * - Requests, responses and retries are logged with their details
+ * - Log levels and WORKBENCH_LOG control what is written
+ * - Authorization headers, API keys and secrets are redacted
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WorkbenchClient } from '../src/client.js';
+import { redact } from '../src/utils/logger.js';
+import type { Logger } from '../src/types/index.js';
+import { jsonResponse, skipSleep } from './helpers.js';
+
+// =============================================================================
+// TEST SETUP
+// =============================================================================
+
+/**
+ * Creates a logger whose methods are spies
+ */
+function createLogger() {
+  return {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  } satisfies Logger;
+}
+
+const webhookResponse = {
+  data: { id: 'wh-123', url: 'https://example.com/hook', secret: 'whsec_abc123' },
+  meta: { request_id: 'req-123' },
+};
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('Logging', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    skipSleep();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  it('should log request and response details', async () => {
+    const logger = createLogger();
+    fetchMock.mockResolvedValueOnce(jsonResponse(webhookResponse));
+
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock, logger });
+    await client.clients.list({ status: 'active' });
+
+    expect(logger.debug).toHaveBeenCalledWith('Sending request', expect.objectContaining({
+      method: 'GET',
+      url: 'https://api.tryworkbench.app/v1/clients',
+      query: expect.objectContaining({ status: 'active' }),
+      attempt: 0,
+    }));
+    expect(logger.debug).toHaveBeenCalledWith('Received response', expect.objectContaining({
+      status: 200,
+      attempt: 0,
+      durationMs: expect.any(Number),
+    }));
+  });
+
+  it('should redact credentials and secrets', async () => {
+    const logger = createLogger();
+    fetchMock.mockResolvedValueOnce(jsonResponse(webhookResponse));
+
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_supersecret', fetch: fetchMock, logger });
+    await client.webhooks.create({ name: 'Hook', url: 'https://example.com/hook', events: ['invoice.paid'] });
+
+    const output = JSON.stringify(logger.debug.mock.calls);
+    expect(output).not.toContain('wbk_test_supersecret');
+    expect(output).not.toContain('whsec_abc123');
+    expect(output).toContain('[REDACTED]');
+  });
+
+  it('should log retries at info level', async () => {
+    const logger = createLogger();
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ error: { code: 'INTERNAL_ERROR', message: 'Oops' } }, 500))
+      .mockResolvedValueOnce(jsonResponse(webhookResponse));
+
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock, logger, logLevel: 'info' });
+    await client.clients.get('client-123');
+
+    expect(logger.debug).not.toHaveBeenCalled();
+    expect(logger.info).toHaveBeenCalledWith('Retrying request', expect.objectContaining({
+      attempt: 1,
+      status: 500,
+    }));
+  });
+
+  it('should log to the console when WORKBENCH_LOG is set', async () => {
+    vi.stubEnv('WORKBENCH_LOG', 'debug');
+    const consoleDebug = vi.spyOn(console, 'debug').mockImplementation(() => undefined);
+    fetchMock.mockResolvedValueOnce(jsonResponse(webhookResponse));
+
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+    await client.clients.get('client-123');
+
+    expect(consoleDebug).toHaveBeenCalledWith('[workbench] Sending request', expect.any(Object));
+  });
+
+  it('should not log by default', async () => {
+    vi.stubEnv('WORKBENCH_LOG', '');
+    const consoleDebug = vi.spyOn(console, 'debug').mockImplementation(() => undefined);
+    fetchMock.mockResolvedValueOnce(jsonResponse(webhookResponse));
+
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+    await client.clients.get('client-123');
+
+    expect(consoleDebug).not.toHaveBeenCalled();
+  });
+});
+
+describe('redact()', () => {
+  it('should redact sensitive keys at any depth', () => {
+    expect(redact({
+      headers: { Authorization: 'Bearer token' },
+      data: [{ access_token_prefix: 'wbk_oat_abc', name: 'Zapier' }],
+    })).toEqual({
+      headers: { Authorization: '[REDACTED]' },
+      data: [{ access_token_prefix: '[REDACTED]', name: 'Zapier' }],
+    });
+  });
+
+  it('should redact API keys inside strings', () => {
+    expect(redact('key=wbk_test_abc123&x=1')).toBe('key=[REDACTED]&x=1');
+  });
+});
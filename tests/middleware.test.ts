@@ -0,0 +1,123 @@
+/**
+ * @fileoverview Transport and middleware tests
+ *
+ * Tests the pluggable transport to ensure:
+ * - A custom fetch implementation is used instead of the global fetch
+ * - Middleware runs in order and can modify requests and responses
+ * - Middleware wraps every attempt, including retries
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WorkbenchClient } from '../src/client.js';
+import type { Middleware } from '../src/types/index.js';
+import { jsonResponse, skipSleep } from './helpers.js';
+
+// =============================================================================
+// TEST SETUP
+// =============================================================================
+
+const clientResponse = {
+  data: { id: 'client-123', first_name: 'John' },
+  meta: { request_id: 'req-123' },
+};
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('Transport', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    skipSleep();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should use the configured fetch implementation', async () => {
+    const globalFetch = vi.spyOn(globalThis, 'fetch');
+    fetchMock.mockResolvedValueOnce(jsonResponse(clientResponse));
+
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+    const result = await client.clients.get('client-123');
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://api.tryworkbench.app/v1/clients/client-123',
+      expect.objectContaining({ method: 'GET' })
+    );
+    expect(globalFetch).not.toHaveBeenCalled();
+    expect(result.data.id).toBe('client-123');
+  });
+
+  it('should run middleware in registration order', async () => {
+    const order: string[] = [];
+    fetchMock.mockResolvedValueOnce(jsonResponse(clientResponse));
+
+    const first: Middleware = async (request, next) => {
+      order.push('first:before');
+      const response = await next(request);
+      order.push('first:after');
+      return response;
+    };
+    const second: Middleware = async (request, next) => {
+      order.push('second:before');
+      const response = await next(request);
+      order.push('second:after');
+      return response;
+    };
+
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock, middleware: [first] });
+    client.use(second);
+
+    await client.clients.get('client-123');
+
+    expect(order).toEqual(['first:before', 'second:before', 'second:after', 'first:after']);
+  });
+
+  it('should let middleware add headers', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse(clientResponse));
+
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+    client.use((request, next) => {
+      request.headers['X-Gateway-Token'] = 'gateway-secret';
+      return next(request);
+    });
+
+    await client.clients.get('client-123');
+
+    expect(fetchMock.mock.calls[0][1].headers).toMatchObject({
+      'X-Gateway-Token': 'gateway-secret',
+      'Authorization': 'Bearer wbk_test_xxx',
+    });
+  });
+
+  it('should let middleware replace the response', async () => {
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+    client.use(async () => jsonResponse({ data: { id: 'from-middleware' }, meta: {} }));
+
+    const result = await client.clients.get('client-123');
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(result.data.id).toBe('from-middleware');
+  });
+
+  it('should run middleware for every retry attempt', async () => {
+    const attempts: number[] = [];
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ error: { code: 'INTERNAL_ERROR', message: 'Oops' } }, 500))
+      .mockResolvedValueOnce(jsonResponse(clientResponse));
+
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+    client.use((request, next) => {
+      attempts.push(request.attempt);
+      return next(request);
+    });
+
+    await client.clients.get('client-123');
+
+    expect(attempts).toEqual([0, 1]);
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * @fileoverview Test/live mode tests
+ *
+ * Tests mode detection and guardrails to ensure:
+ * - The mode is derived from the API key prefix or OAuth credentials
+ * - Live keys are refused when test mode is required
+ * - Errors and log entries are tagged with the mode
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { WorkbenchClient } from '../src/client.js';
+import { jsonResponse } from './helpers.js';
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('Mode', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should detect the mode from the credentials', () => {
+    expect(new WorkbenchClient({ apiKey: 'wbk_test_xxx' }).mode).toBe('test');
+    expect(new WorkbenchClient({ apiKey: 'wbk_live_xxx', requireTestMode: false }).mode).toBe('live');
+    expect(new WorkbenchClient({ accessToken: 'wbk_at_xxx' }).mode).toBe('oauth');
+  });
+
+  it('should refuse live keys when test mode is required', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+
+    expect(() => new WorkbenchClient({ apiKey: 'wbk_live_xxx', requireTestMode: true }))
+      .toThrow(/test mode is required/);
+    expect(new WorkbenchClient({ apiKey: 'wbk_live_xxx' }).mode).toBe('live');
+  });
+
+  it('should require test mode by default when NODE_ENV is test', () => {
+    vi.stubEnv('NODE_ENV', 'test');
+
+    expect(() => new WorkbenchClient({ apiKey: 'wbk_live_xxx' })).toThrow(/wbk_test_/);
+    expect(() => new WorkbenchClient({ apiKey: 'wbk_test_xxx' })).not.toThrow();
+  });
+
+  it('should tag errors and logs with the mode', async () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const fetchMock = vi.fn().mockResolvedValue(
+      jsonResponse({ error: { code: 'NOT_FOUND', message: 'Missing' } }, 404)
+    );
+
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock, logger });
+    const error = await client.clients.get('missing').catch((e) => e);
+
+    expect(error.mode).toBe('test');
+    expect(logger.debug).toHaveBeenCalledWith('Sending request', expect.objectContaining({ mode: 'test' }));
+  });
+});
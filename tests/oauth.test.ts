@@ -0,0 +1,190 @@
+/**
+ * @fileoverview OAuth helper tests
+ *
+ * Tests the authorization-code + PKCE helpers to ensure:
+ * - Verifiers and S256 challenges follow RFC 7636
+ * - The authorization URL carries client, scopes, state and challenge
+ * - Callback state is validated
+ * - Codes and refresh tokens are exchanged against a token endpoint
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer } from 'http';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  generateCodeVerifier,
+  generateCodeChallenge,
+  buildAuthorizationUrl,
+  createAuthorizationRequest,
+  parseAuthorizationCallback,
+  exchangeAuthorizationCode,
+  refreshAccessToken,
+  OAuthError,
+} from '../src/utils/oauth.js';
+import type { OAuthConfig } from '../src/utils/oauth.js';
+
+// =============================================================================
+// TEST SETUP
+// =============================================================================
+
+/**
+ * Token requests received by the stub server, as parsed form bodies
+ */
+let tokenRequests: URLSearchParams[] = [];
+
+/**
+ * Local stub of the token endpoint
+ *
+ * Accepts the code `valid-code` and the refresh token `valid-refresh`,
+ * and rejects everything else with invalid_grant.
+ */
+const server: Server = createServer((req, res) => {
+  let body = '';
+  req.on('data', (chunk) => (body += chunk));
+  req.on('end', () => {
+    const params = new URLSearchParams(body);
+    tokenRequests.push(params);
+
+    const accepted = params.get('code') === 'valid-code' || params.get('refresh_token') === 'valid-refresh';
+    res.setHeader('Content-Type', 'application/json');
+
+    if (!accepted) {
+      res.statusCode = 400;
+      res.end(JSON.stringify({ error: 'invalid_grant', error_description: 'Code is invalid or expired' }));
+      return;
+    }
+
+    res.end(JSON.stringify({
+      access_token: 'wbk_at_new',
+      refresh_token: 'wbk_rt_new',
+      token_type: 'Bearer',
+      expires_in: 3600,
+      scope: 'clients:read invoices:read',
+    }));
+  });
+});
+
+let config: OAuthConfig;
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  config = {
+    clientId: 'client-abc',
+    clientSecret: 'secret-xyz',
+    redirectUri: 'https://example.com/callback',
+    tokenUrl: `http://127.0.0.1:${port}/oauth/token`,
+  };
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  tokenRequests = [];
+});
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('PKCE', () => {
+  it('should generate verifiers within RFC 7636 bounds', () => {
+    const verifier = generateCodeVerifier();
+
+    expect(verifier).toHaveLength(64);
+    expect(verifier).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(generateCodeVerifier(43)).toHaveLength(43);
+    expect(() => generateCodeVerifier(42)).toThrow(RangeError);
+  });
+
+  it('should derive the S256 challenge', () => {
+    // Test vector from RFC 7636 Appendix B
+    expect(generateCodeChallenge('dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk'))
+      .toBe('E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM');
+  });
+});
+
+describe('Authorization URL', () => {
+  it('should include client, scopes, state and challenge', () => {
+    const url = new URL(buildAuthorizationUrl(config, {
+      scopes: ['clients:read', 'invoices:write'],
+      state: 'state-123',
+      codeChallenge: 'challenge-abc',
+    }));
+
+    expect(url.origin + url.pathname).toBe('https://app.tryworkbench.app/oauth/authorize');
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      response_type: 'code',
+      client_id: 'client-abc',
+      redirect_uri: 'https://example.com/callback',
+      scope: 'clients:read invoices:write',
+      state: 'state-123',
+      code_challenge: 'challenge-abc',
+      code_challenge_method: 'S256',
+    });
+  });
+
+  it('should create a request whose challenge matches the verifier', () => {
+    const { url, state, codeVerifier } = createAuthorizationRequest(config, ['clients:read']);
+    const params = new URL(url).searchParams;
+
+    expect(params.get('state')).toBe(state);
+    expect(params.get('code_challenge')).toBe(generateCodeChallenge(codeVerifier));
+  });
+});
+
+describe('Callback', () => {
+  it('should return the code when the state matches', () => {
+    expect(parseAuthorizationCallback('/callback?code=abc&state=s1', 's1')).toBe('abc');
+  });
+
+  it('should reject a mismatched state', () => {
+    expect(() => parseAuthorizationCallback('/callback?code=abc&state=evil', 's1'))
+      .toThrow(expect.objectContaining({ code: 'state_mismatch' }));
+  });
+
+  it('should surface errors returned by the consent screen', () => {
+    expect(() => parseAuthorizationCallback('error=access_denied&error_description=Denied&state=s1', 's1'))
+      .toThrow(new OAuthError('Denied', 'access_denied'));
+  });
+});
+
+describe('Token exchange', () => {
+  it('should exchange an authorization code for tokens', async () => {
+    const tokens = await exchangeAuthorizationCode(config, 'valid-code', 'verifier-123');
+
+    expect(tokens).toMatchObject({
+      accessToken: 'wbk_at_new',
+      refreshToken: 'wbk_rt_new',
+      tokenType: 'Bearer',
+      expiresIn: 3600,
+      scopes: ['clients:read', 'invoices:read'],
+    });
+    expect(tokens.expiresAt).toBeInstanceOf(Date);
+    expect(Object.fromEntries(tokenRequests[0])).toEqual({
+      client_id: 'client-abc',
+      client_secret: 'secret-xyz',
+      grant_type: 'authorization_code',
+      code: 'valid-code',
+      code_verifier: 'verifier-123',
+      redirect_uri: 'https://example.com/callback',
+    });
+  });
+
+  it('should refresh an access token', async () => {
+    const tokens = await refreshAccessToken(config, 'valid-refresh');
+
+    expect(tokens.accessToken).toBe('wbk_at_new');
+    expect(tokenRequests[0].get('grant_type')).toBe('refresh_token');
+  });
+
+  it('should throw OAuthError when the grant is rejected', async () => {
+    const error = await exchangeAuthorizationCode(config, 'bad-code', 'verifier-123').catch((e) => e);
+
+    expect(error).toBeInstanceOf(OAuthError);
+    expect(error).toMatchObject({ code: 'invalid_grant', status: 400, message: 'Code is invalid or expired' });
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * @fileoverview Auto-pagination tests
+ *
+ * Tests the listAll() iterators to ensure they:
+ * - Follow page-based and offset-based pagination
+ * - Preserve list() filters on every page
+ * - Stop when has_more is false or max is reached
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WorkbenchClient } from '../src/client.js';
+
+// =============================================================================
+// TEST SETUP
+// =============================================================================
+
+// Fetch passed to every client as its transport
+const mockFetch = vi.fn();
+
+/**
+ * Creates a mock API response
+ */
+function createMockResponse(
+  data: unknown,
+  options: { status?: number; ok?: boolean; headers?: Record<string, string> } = {}
+) {
+  return {
+    ok: options.ok ?? true,
+    status: options.status ?? 200,
+    headers: new Headers(options.headers),
+    text: vi.fn().mockResolvedValue(JSON.stringify(data)),
+  };
+}
+
+/**
+ * Creates a page of mock clients
+ */
+function createClientsPage(ids: string[], pagination: Record<string, unknown>) {
+  return {
+    data: ids.map((id) => ({ id, first_name: `Client ${id}` })),
+    meta: { request_id: 'req-123', timestamp: '2025-01-01T00:00:00Z' },
+    pagination,
+  };
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('listAll()', () => {
+  let client: WorkbenchClient;
+
+  beforeEach(() => {
+    mockFetch.mockClear();
+    client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: mockFetch });
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should follow page-based pagination', async () => {
+    mockFetch
+      .mockResolvedValueOnce(createMockResponse(
+        createClientsPage(['1', '2'], { page: 1, per_page: 2, total: 3, total_pages: 2, has_more: true })
+      ))
+      .mockResolvedValueOnce(createMockResponse(
+        createClientsPage(['3'], { page: 2, per_page: 2, total: 3, total_pages: 2, has_more: false })
+      ));
+
+    const ids: string[] = [];
+    for await (const c of client.clients.listAll({ status: 'active', per_page: 2 })) {
+      ids.push(c.id);
+    }
+
+    expect(ids).toEqual(['1', '2', '3']);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(mockFetch.mock.calls[1][0]).toMatch(/page=2/);
+    expect(mockFetch.mock.calls[1][0]).toMatch(/status=active/);
+    expect(mockFetch.mock.calls[1][0]).toMatch(/per_page=2/);
+  });
+
+  it('should follow offset-based pagination', async () => {
+    mockFetch
+      .mockResolvedValueOnce(createMockResponse(
+        createClientsPage(['1', '2'], { limit: 2, offset: 0, total: 4, has_more: true })
+      ))
+      .mockResolvedValueOnce(createMockResponse(
+        createClientsPage(['3', '4'], { limit: 2, offset: 2, total: 4, has_more: false })
+      ));
+
+    const result = await client.clients.listAll({ limit: 2 }).toArray();
+
+    expect(result.map((c) => c.id)).toEqual(['1', '2', '3', '4']);
+    expect(mockFetch.mock.calls[1][0]).toMatch(/offset=2/);
+    expect(mockFetch.mock.calls[1][0]).toMatch(/limit=2/);
+  });
+
+  it('should stop fetching once max items are collected', async () => {
+    mockFetch.mockResolvedValueOnce(createMockResponse(
+      createClientsPage(['1', '2'], { page: 1, per_page: 2, total: 10, total_pages: 5, has_more: true })
+    ));
+
+    const result = await client.clients.listAll().toArray({ max: 2 });
+
+    expect(result).toHaveLength(2);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should iterate pages of webhook deliveries', async () => {
+    mockFetch
+      .mockResolvedValueOnce(createMockResponse(
+        createClientsPage(['d1'], { page: 1, per_page: 1, total: 2, has_more: true })
+      ))
+      .mockResolvedValueOnce(createMockResponse(
+        createClientsPage(['d2'], { page: 2, per_page: 1, total: 2, has_more: false })
+      ));
+
+    const pages = [];
+    for await (const page of client.webhooks.listAllDeliveries('wh-123', { event_type: 'invoice.paid' }).pages()) {
+      pages.push(page);
+    }
+
+    expect(pages).toHaveLength(2);
+    expect(mockFetch.mock.calls[1][0]).toContain('/v1/webhooks/wh-123/deliveries');
+    expect(mockFetch.mock.calls[1][0]).toMatch(/event_type=invoice.paid/);
+  });
+});
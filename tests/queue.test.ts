@@ -0,0 +1,156 @@
+/**
+ * @fileoverview Request queue tests
+ *
+ * Tests client-side queueing to ensure:
+ * - No more than maxConcurrency requests are in flight
+ * - requestsPerSecond is enforced with a token bucket
+ * - Higher-priority calls are sent before queued lower-priority ones
+ * - Queued calls can be aborted and queue depth is reported
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WorkbenchClient } from '../src/client.js';
+import { RequestQueue } from '../src/utils/request-queue.js';
+import { jsonResponse, skipSleep } from './helpers.js';
+
+// =============================================================================
+// TEST SETUP
+// =============================================================================
+
+/**
+ * Fetch mock whose responses are released manually
+ */
+function createDeferredFetch() {
+  const pending: Array<{ url: string; resolve: () => void }> = [];
+  const fetchMock = vi.fn((url: string) => new Promise<Response>((resolve) => {
+    pending.push({ url, resolve: () => resolve(jsonResponse({ data: { id: url }, meta: {} })) });
+  }));
+  return { fetchMock, pending };
+}
+
+/**
+ * Let queued promise callbacks run
+ */
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('Request queue', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should limit requests in flight to maxConcurrency', async () => {
+    const { fetchMock, pending } = createDeferredFetch();
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock, maxConcurrency: 2 });
+
+    const calls = ['a', 'b', 'c', 'd'].map((id) => client.clients.get(id));
+    await flush();
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(client.queueStats).toMatchObject({ active: 2, queued: 2 });
+
+    pending[0].resolve();
+    await flush();
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    pending.slice(1).forEach((p) => p.resolve());
+    await flush();
+    pending.slice(3).forEach((p) => p.resolve());
+
+    await Promise.all(calls);
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+    expect(client.queueStats).toMatchObject({ active: 0, queued: 0 });
+  });
+
+  it('should serve higher-priority calls first', async () => {
+    const { fetchMock, pending } = createDeferredFetch();
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock, maxConcurrency: 1 });
+
+    const first = client.clients.get('first');
+    const low = client.clients.get('low', { priority: 'low' });
+    const high = client.clients.get('high', { priority: 'high' });
+    await flush();
+
+    expect(client.queueStats.queuedByPriority).toEqual({ high: 1, normal: 0, low: 1 });
+
+    pending[0].resolve();
+    await flush();
+    pending[1].resolve();
+    await flush();
+    pending[2].resolve();
+    await Promise.all([first, low, high]);
+
+    expect(fetchMock.mock.calls.map(([url]) => url.split('/').pop())).toEqual(['first', 'high', 'low']);
+  });
+
+  it('should remove aborted calls from the queue', async () => {
+    const { fetchMock, pending } = createDeferredFetch();
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock, maxConcurrency: 1 });
+    const controller = new AbortController();
+
+    const first = client.clients.get('first');
+    const queued = client.clients.get('queued', { signal: controller.signal }).catch((e) => e);
+    await flush();
+
+    controller.abort();
+    const error = await queued;
+    pending[0].resolve();
+    await first;
+
+    expect(error.code).toBe('ABORTED');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(client.queueStats.queued).toBe(0);
+  });
+
+  it('should release the slot while waiting to retry', async () => {
+    skipSleep(flush);
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({ error: { code: 'INTERNAL_ERROR', message: 'Oops' } }, 500))
+      .mockImplementation(async () => jsonResponse({ data: {}, meta: {} }));
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock, maxConcurrency: 1 });
+
+    await Promise.all([client.clients.get('a'), client.clients.get('b')]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('RequestQueue rate limiting', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should allow a burst and then space requests by the rate', async () => {
+    const queue = new RequestQueue({ requestsPerSecond: 2 });
+    const granted: number[] = [];
+
+    for (let i = 0; i < 4; i++) {
+      Promise.resolve(queue.acquire()).then((release) => {
+        granted.push(i);
+        release();
+      });
+    }
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(granted).toEqual([0, 1]);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(granted).toEqual([0, 1, 2]);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(granted).toEqual([0, 1, 2, 3]);
+  });
+
+  it('should reject invalid limits', () => {
+    expect(() => new RequestQueue({ maxConcurrency: 0 })).toThrow(RangeError);
+    expect(() => new RequestQueue({ requestsPerSecond: 0 })).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * @fileoverview Quote resource tests
+ *
+ * Tests QuotesResource workflow methods to ensure:
+ * - Approved quotes are converted into a linked invoice with their line items
+ * - The quote is marked converted and both records are returned
+ * - Each step gets an idempotency key derived from the caller's key or the
+ *   quote and overrides, unless the client sends no idempotency keys
+ * - Quotes in other statuses are rejected with InvalidStateError
+ * - approve/reject/markViewed/expire only allow legal status transitions
+ * - Status changes return WorkbenchPromises carrying the update's response
+ */
+
+import { describe, it, expect } from 'vitest';
+import { WorkbenchClient } from '../src/client.js';
+import { InvalidStateError } from '../src/errors.js';
+import { createRouteMock, jsonResponse } from './helpers.js';
+
+// =============================================================================
+// TEST SETUP
+// =============================================================================
+
+/**
+ * A quote record in the given status
+ */
+function createQuote(status: string) {
+  return {
+    id: 'quote_1',
+    client_id: 'cli_1',
+    job_id: 'job_1',
+    quote_number: 'Q-001',
+    status,
+    tax_rate: 8.25,
+    discount_amount: 50,
+    notes: 'Thanks!',
+    terms: 'Net 30',
+    items: [
+      { id: 'item_1', description: 'Kitchen Renovation', quantity: 1, unit_price: 5000, sort_order: 0 },
+      { id: 'item_2', description: 'Materials', quantity: 2, unit_price: 1250, sort_order: 1 },
+    ],
+  };
+}
+
+/**
+ * Fetch mock serving the quote in the given status
+ */
+function createApiMock(quoteStatus: string) {
+  return createRouteMock({
+    'GET /v1/quotes/quote_1': () => jsonResponse({ data: createQuote(quoteStatus), meta: {} }),
+    'POST /v1/invoices': (body) => jsonResponse({ data: { id: 'inv_1', ...body }, meta: {} }, 201),
+    'PUT /v1/quotes/quote_1': (body) => jsonResponse({ data: { ...createQuote(quoteStatus), ...body }, meta: {} }),
+  });
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('QuotesResource.convertToInvoice', () => {
+  it('should create a linked invoice from the quote and mark the quote converted', async () => {
+    const fetchMock = createApiMock('approved');
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    const { quote, invoice } = await client.quotes.convertToInvoice('quote_1', { due_date: '2024-03-15' });
+
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body as string)).toEqual({
+      client_id: 'cli_1',
+      job_id: 'job_1',
+      quote_id: 'quote_1',
+      items: [
+        { description: 'Kitchen Renovation', quantity: 1, unit_price: 5000, sort_order: 0 },
+        { description: 'Materials', quantity: 2, unit_price: 1250, sort_order: 1 },
+      ],
+      tax_rate: 8.25,
+      discount_amount: 50,
+      notes: 'Thanks!',
+      terms: 'Net 30',
+      due_date: '2024-03-15',
+    });
+    expect(JSON.parse(fetchMock.mock.calls[2][1].body as string)).toEqual({ status: 'converted' });
+    expect(invoice.id).toBe('inv_1');
+    expect(quote.status).toBe('converted');
+  });
+
+  it('should send a separate idempotency key for each step', async () => {
+    const fetchMock = createApiMock('approved');
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+    const keys = () => fetchMock.mock.calls.slice(1).map(([, init]) =>
+      (init.headers as Record<string, string>)['Idempotency-Key']
+    );
+
+    await client.quotes.convertToInvoice('quote_1', {}, { idempotencyKey: 'convert-q1' });
+    expect(keys()).toEqual(['convert-q1:invoice', 'convert-q1:quote']);
+
+    fetchMock.mockClear();
+    await client.quotes.convertToInvoice('quote_1');
+    const generated = keys();
+    fetchMock.mockClear();
+    await client.quotes.convertToInvoice('quote_1');
+
+    // Stable per quote and overrides, so calling again after a failed update replays the same invoice
+    expect(generated).toEqual([
+      expect.stringMatching(/^quote-conversion-quote_1-[0-9a-f]{16}:invoice$/),
+      expect.stringMatching(/^quote-conversion-quote_1-[0-9a-f]{16}:quote$/),
+    ]);
+    expect(keys()).toEqual(generated);
+
+    fetchMock.mockClear();
+    await client.quotes.convertToInvoice('quote_1', { due_date: '2024-03-15' });
+    expect(keys()[0]).not.toBe(generated[0]);
+  });
+
+  it('should not derive keys when the client does not send idempotency keys', async () => {
+    const fetchMock = createApiMock('approved');
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock, idempotencyKeys: false });
+
+    await client.quotes.convertToInvoice('quote_1');
+
+    expect(fetchMock.mock.calls.some(([, init]) => 'Idempotency-Key' in (init.headers as Record<string, string>)))
+      .toBe(false);
+  });
+
+  it('should reject quotes that are not approved', async () => {
+    const fetchMock = createApiMock('sent');
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    const error = await client.quotes.convertToInvoice('quote_1').catch((e) => e);
+
+    expect(error).toBeInstanceOf(InvalidStateError);
+    expect(error.code).toBe('INVALID_STATE');
+    expect(error.currentStatus).toBe('sent');
+    expect(error.allowedStatuses).toEqual(['approved']);
+    expect(error.message).toContain("status is 'sent'");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('QuotesResource status workflow', () => {
+  it('should approve a viewed quote and record who approved it', async () => {
+    const fetchMock = createApiMock('viewed');
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    const { data } = await client.quotes.approve('quote_1', { approvedBy: 'user_1', signatureName: 'Jane Smith' });
+
+    const body = JSON.parse(fetchMock.mock.calls[1][1].body as string);
+    expect(body).toEqual({
+      status: 'approved',
+      approved_at: expect.any(String),
+      approved_by: 'user_1',
+      signature_name: 'Jane Smith',
+    });
+    expect(Number.isNaN(Date.parse(body.approved_at))).toBe(false);
+    expect(data.status).toBe('approved');
+  });
+
+  it('should send the rejection reason', async () => {
+    const fetchMock = createApiMock('sent');
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    await client.quotes.reject('quote_1', { reason: 'Over budget' });
+
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body as string)).toEqual({
+      status: 'rejected',
+      rejection_reason: 'Over budget',
+    });
+  });
+
+  it('should mark sent quotes viewed and expire open quotes', async () => {
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: createApiMock('sent') });
+
+    await expect(client.quotes.markViewed('quote_1')).resolves.toMatchObject({ data: { status: 'viewed' } });
+    await expect(client.quotes.expire('quote_1')).resolves.toMatchObject({ data: { status: 'expired' } });
+  });
+
+  it('should expose the response of the update', async () => {
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: createApiMock('sent') });
+
+    const { data, response } = await client.quotes.approve('quote_1', { approvedBy: 'user_1' }).withResponse();
+    const status = await client.quotes.expire('quote_1').map(({ data: quote }) => quote.status);
+
+    expect(data.data.status).toBe('approved');
+    expect(response.status).toBe(200);
+    expect(status).toBe('expired');
+  });
+
+  it('should reject illegal transitions without updating the quote', async () => {
+    const fetchMock = createApiMock('approved');
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    const error = await client.quotes.reject('quote_1', { reason: 'Changed my mind' }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(InvalidStateError);
+    expect(error.currentStatus).toBe('approved');
+    expect(error.allowedStatuses).toEqual(['sent', 'viewed']);
+    expect(error.message).toBe("Quote Q-001 cannot be rejected: status is 'approved', expected 'sent' or 'viewed'");
+    await expect(client.quotes.markViewed('quote_1')).rejects.toThrow(InvalidStateError);
+    await expect(client.quotes.expire('quote_1')).rejects.toThrow(InvalidStateError);
+    expect(fetchMock.mock.calls.every(([, init]) => init.method === 'GET')).toBe(true);
+  });
+
+  it('should read the current status past the response cache', async () => {
+    const fetchMock = createApiMock('sent');
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock, cache: true });
+
+    await client.quotes.get('quote_1');
+    await client.quotes.markViewed('quote_1');
+
+    expect(fetchMock.mock.calls.map(([, init]) => init.method)).toEqual(['GET', 'GET', 'PUT']);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * @fileoverview Per-request option tests
+ *
+ * Tests RequestConfig handling to ensure:
+ * - Options are threaded from resource methods to the transport
+ * - Caller signals cancel requests and pending retries
+ * - Timeout and retry overrides apply to a single call
+ * - Timeouts setTimeout cannot honour are rejected instead of aborting every request
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WorkbenchClient } from '../src/client.js';
+import { WorkbenchError } from '../src/errors.js';
+import { jsonResponse, skipSleep } from './helpers.js';
+
+// =============================================================================
+// TEST SETUP
+// =============================================================================
+
+/**
+ * Creates a fetch mock that never resolves until its signal aborts
+ */
+function hangingFetch() {
+  return vi.fn((_url: string, init: RequestInit) => new Promise<Response>((_resolve, reject) => {
+    init.signal?.addEventListener('abort', () => {
+      const error = new Error('The operation was aborted');
+      error.name = 'AbortError';
+      reject(error);
+    });
+  }));
+}
+
+const serverError = { error: { code: 'INTERNAL_ERROR', message: 'Oops' } };
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('RequestConfig', () => {
+  beforeEach(() => {
+    skipSleep();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should send extra headers and idempotency key from resource methods', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse({ data: {}, meta: {} }));
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    await client.invoices.send('inv-123', {
+      headers: { 'X-Trace-Id': 'trace-1' },
+      idempotencyKey: 'send-inv-123',
+    });
+
+    expect(fetchMock.mock.calls[0][1].headers).toMatchObject({
+      'X-Trace-Id': 'trace-1',
+      'Idempotency-Key': 'send-inv-123',
+    });
+  });
+
+  it('should not retry when maxRetries is 0 for a single call', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(serverError, 500));
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    await expect(client.clients.list({}, { maxRetries: 0 })).rejects.toThrow('Oops');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should apply a per-call timeout', async () => {
+    const fetchMock = hangingFetch();
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock, timeout: 60000 });
+
+    const error = await client.clients.get('client-123', { timeout: 10, maxRetries: 0 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(WorkbenchError);
+    expect(error.code).toBe('TIMEOUT');
+  });
+
+  it('should reject a timeout outside 1ms to 2^31 - 1ms with a RangeError', async () => {
+    const fetchMock = vi.fn();
+
+    expect(() => new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock, timeout: 0 })).toThrow(RangeError);
+    expect(() => new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock, timeout: Infinity })).toThrow(RangeError);
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    await expect(client.clients.get('client-123', { timeout: 0 })).rejects.toThrow(
+      'timeout must be between 1 and 2147483647ms (got 0)'
+    );
+    await expect(client.clients.get('client-123', { timeout: 3e9 })).rejects.toBeInstanceOf(RangeError);
+    await expect(client.clients.update('client-123', {}, { timeout: Infinity })).rejects.toBeInstanceOf(RangeError);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should abort when the caller signal fires and not retry', async () => {
+    const fetchMock = hangingFetch();
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+    const controller = new AbortController();
+
+    const pending = client.clients.get('client-123', { signal: controller.signal }).catch((e) => e);
+    controller.abort();
+    const error = await pending;
+
+    expect(error).toBeInstanceOf(WorkbenchError);
+    expect(error.code).toBe('ABORTED');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not send a request when the signal is already aborted', async () => {
+    const fetchMock = vi.fn();
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    await expect(
+      client.clients.list({}, { signal: AbortSignal.abort() })
+    ).rejects.toMatchObject({ code: 'ABORTED' });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * @fileoverview Response metadata tests
+ *
+ * Tests WorkbenchPromise to ensure:
+ * - Awaiting a call still resolves to the parsed body
+ * - withResponse() exposes status, headers, request ID, timing and attempts
+ * - Errors propagate through withResponse() and catch()
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WorkbenchClient } from '../src/client.js';
+import { jsonResponse, skipSleep } from './helpers.js';
+
+// =============================================================================
+// TEST SETUP
+// =============================================================================
+
+const clientResponse = {
+  data: { id: 'client-123', first_name: 'John' },
+  meta: { request_id: 'req-body-123', timestamp: '2025-01-01T00:00:00Z' },
+};
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('WorkbenchPromise', () => {
+  beforeEach(() => {
+    skipSleep();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should resolve to the parsed body when awaited', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(clientResponse));
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    const result = await client.clients.get('client-123');
+
+    expect(result.data.id).toBe('client-123');
+  });
+
+  it('should expose response metadata via withResponse()', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({ error: { code: 'INTERNAL_ERROR', message: 'Oops' } }, 500))
+      .mockResolvedValueOnce(jsonResponse(clientResponse, 200, {
+        'X-Request-Id': 'req-header-123',
+        'Deprecation': 'true',
+      }));
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    const { data, response } = await client.clients.get('client-123').withResponse();
+
+    expect(data.data.id).toBe('client-123');
+    expect(response.status).toBe(200);
+    expect(response.requestId).toBe('req-header-123');
+    expect(response.headers.get('deprecation')).toBe('true');
+    expect(response.attempts).toBe(2);
+    expect(response.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should fall back to the request ID from the response body', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(clientResponse));
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    const response = await client.clients.get('client-123').asResponse();
+
+    expect(response.requestId).toBe('req-body-123');
+  });
+
+  it('should resolve deletes to undefined while keeping metadata', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => new Response(null, {
+      status: 204,
+      headers: { 'X-Request-Id': 'req-delete' },
+    }));
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    expect(await client.clients.delete('client-123')).toBeUndefined();
+
+    const { response } = await client.clients.delete('client-123').withResponse();
+    expect(response.status).toBe(204);
+    expect(response.requestId).toBe('req-delete');
+  });
+
+  it('should reject withResponse() and catch() on API errors', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () =>
+      jsonResponse({ error: { code: 'NOT_FOUND', message: 'Client not found' } }, 404)
+    );
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    await expect(client.clients.get('missing').withResponse()).rejects.toThrow('Client not found');
+
+    const caught = await client.clients.get('missing').catch((error: Error) => error.message);
+    expect(caught).toBe('Client not found');
+  });
+});
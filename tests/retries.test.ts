@@ -0,0 +1,257 @@
+/**
+ * @fileoverview Retry and idempotency tests
+ *
+ * Tests WorkbenchClient.request() retry behavior to ensure:
+ * - Mutating requests carry an Idempotency-Key that is stable across retries
+ * - Explicit idempotency keys override generated ones
+ * - Non-idempotent requests without a key are never retried on 5xx
+ * - Retry-After and X-RateLimit-* headers are honoured and exposed
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WorkbenchClient } from '../src/client.js';
+import { skipSleep } from './helpers.js';
+
+// =============================================================================
+// TEST SETUP
+// =============================================================================
+
+// Fetch passed to every client as its transport
+const mockFetch = vi.fn();
+
+/**
+ * Creates a mock API response
+ */
+function createMockResponse(
+  data: unknown,
+  options: { status?: number; ok?: boolean; headers?: Record<string, string> } = {}
+) {
+  return {
+    ok: options.ok ?? true,
+    status: options.status ?? 200,
+    headers: new Headers(options.headers),
+    text: vi.fn().mockResolvedValue(JSON.stringify(data)),
+  };
+}
+
+const serverError = {
+  error: { code: 'INTERNAL_ERROR', message: 'Something went wrong' },
+  meta: { request_id: 'req-500' },
+};
+
+const sendResponse = {
+  data: { message: 'Invoice sent', invoice_id: 'inv-123' },
+  meta: { request_id: 'req-123' },
+};
+
+/**
+ * Returns the headers passed to the nth fetch call
+ */
+function headersOfCall(index: number): Record<string, string> {
+  return mockFetch.mock.calls[index][1].headers;
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('Retries and idempotency', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    // Skip backoff delays
+    skipSleep();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should send the same Idempotency-Key on every retry', async () => {
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: mockFetch });
+
+    mockFetch
+      .mockResolvedValueOnce(createMockResponse(serverError, { status: 503, ok: false }))
+      .mockResolvedValueOnce(createMockResponse(sendResponse));
+
+    await client.invoices.send('inv-123');
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    const key = headersOfCall(0)['Idempotency-Key'];
+    expect(key).toMatch(/^[0-9a-f-]{36}$/);
+    expect(headersOfCall(1)['Idempotency-Key']).toBe(key);
+  });
+
+  it('should generate a new key for each call', async () => {
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: mockFetch });
+
+    mockFetch.mockResolvedValue(createMockResponse(sendResponse));
+
+    await client.invoices.send('inv-123');
+    await client.invoices.send('inv-123');
+
+    expect(headersOfCall(0)['Idempotency-Key']).not.toBe(headersOfCall(1)['Idempotency-Key']);
+  });
+
+  it('should not send a key on GET requests', async () => {
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: mockFetch });
+
+    mockFetch.mockResolvedValueOnce(createMockResponse({ data: {}, meta: {} }));
+
+    await client.invoices.get('inv-123');
+
+    expect(headersOfCall(0)['Idempotency-Key']).toBeUndefined();
+  });
+
+  it('should use an explicit idempotency key', async () => {
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: mockFetch });
+
+    mockFetch.mockResolvedValueOnce(createMockResponse(sendResponse));
+
+    await client.request({ method: 'POST', path: '/v1/invoices/inv-123/send', idempotencyKey: 'send-inv-123' });
+
+    expect(headersOfCall(0)['Idempotency-Key']).toBe('send-inv-123');
+  });
+
+  it('should not retry POST without a key when generation is disabled', async () => {
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: mockFetch, idempotencyKeys: false });
+
+    mockFetch.mockResolvedValue(createMockResponse(serverError, { status: 500, ok: false }));
+
+    await expect(client.invoices.send('inv-123')).rejects.toThrow('Something went wrong');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(headersOfCall(0)['Idempotency-Key']).toBeUndefined();
+  });
+
+  it('should not retry POST after a network error when generation is disabled', async () => {
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: mockFetch, idempotencyKeys: false });
+
+    mockFetch.mockRejectedValue(new TypeError('fetch failed'));
+
+    await expect(client.invoices.send('inv-123')).rejects.toThrow('fetch failed');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should still retry rate-limited POST requests without a key', async () => {
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: mockFetch, idempotencyKeys: false });
+
+    mockFetch
+      .mockResolvedValueOnce(createMockResponse(
+        { error: { code: 'RATE_LIMITED', message: 'Too many requests' } },
+        { status: 429, ok: false }
+      ))
+      .mockResolvedValueOnce(createMockResponse(sendResponse));
+
+    await client.invoices.send('inv-123');
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should retry idempotent methods without a key', async () => {
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: mockFetch, idempotencyKeys: false });
+
+    mockFetch
+      .mockResolvedValueOnce(createMockResponse(serverError, { status: 502, ok: false }))
+      .mockResolvedValueOnce(createMockResponse({}, { status: 204 }));
+
+    await client.invoices.delete('inv-123');
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('Rate limiting', () => {
+  let sleep: ReturnType<typeof skipSleep>;
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    sleep = skipSleep();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const rateLimited = { error: { code: 'RATE_LIMITED', message: 'Too many requests' } };
+
+  it('should wait for the Retry-After delay on 429', async () => {
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: mockFetch });
+
+    mockFetch
+      .mockResolvedValueOnce(createMockResponse(rateLimited, {
+        status: 429,
+        ok: false,
+        headers: { 'Retry-After': '7' },
+      }))
+      .mockResolvedValueOnce(createMockResponse({ data: [], meta: {}, pagination: {} }));
+
+    await client.clients.list();
+
+    expect(sleep.mock.calls[0][0]).toBe(7000);
+  });
+
+  it('should fail fast when Retry-After exceeds the maximum wait', async () => {
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: mockFetch });
+
+    mockFetch.mockResolvedValueOnce(createMockResponse(rateLimited, {
+      status: 429,
+      ok: false,
+      headers: { 'Retry-After': '3600' },
+    }));
+
+    await expect(client.clients.list()).rejects.toThrow('Too many requests');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should apply jitter to exponential backoff', async () => {
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: mockFetch });
+
+    mockFetch
+      .mockResolvedValueOnce(createMockResponse(serverError, { status: 500, ok: false }))
+      .mockResolvedValueOnce(createMockResponse({ data: [], meta: {}, pagination: {} }));
+
+    await client.clients.list();
+
+    const delay = sleep.mock.calls[0][0];
+    expect(delay).toBeGreaterThanOrEqual(500);
+    expect(delay).toBeLessThanOrEqual(1000);
+  });
+
+  it('should expose the last-seen rate limit state', async () => {
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: mockFetch });
+
+    expect(client.rateLimit).toBeNull();
+
+    mockFetch.mockResolvedValueOnce(createMockResponse({ data: [], meta: {}, pagination: {} }, {
+      headers: {
+        'X-RateLimit-Limit': '100',
+        'X-RateLimit-Remaining': '42',
+        'X-RateLimit-Reset': '1893456000',
+      },
+    }));
+
+    await client.clients.list();
+
+    expect(client.rateLimit).toMatchObject({ limit: 100, remaining: 42 });
+    expect(client.rateLimit?.resetAt?.toISOString()).toBe('2030-01-01T00:00:00.000Z');
+  });
+
+  it('should emit rateLimitWarning when nearing the limit', async () => {
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: mockFetch, rateLimitWarningThreshold: 0.2 });
+    const listener = vi.fn();
+    client.on('rateLimitWarning', listener);
+
+    mockFetch
+      .mockResolvedValueOnce(createMockResponse({ data: [], meta: {}, pagination: {} }, {
+        headers: { 'X-RateLimit-Limit': '100', 'X-RateLimit-Remaining': '50' },
+      }))
+      .mockResolvedValueOnce(createMockResponse({ data: [], meta: {}, pagination: {} }, {
+        headers: { 'X-RateLimit-Limit': '100', 'X-RateLimit-Remaining': '15' },
+      }));
+
+    await client.clients.list();
+    expect(listener).not.toHaveBeenCalled();
+
+    await client.clients.list();
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ limit: 100, remaining: 15 }));
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * @fileoverview Access token refresh tests
+ *
+ * Tests automatic OAuth token refresh to ensure:
+ * - A 401 triggers one refresh and one retry of the original request
+ * - Concurrent requests share a single refresh
+ * - Rotated tokens are reported through onTokenRefreshed
+ * - Token providers are consulted per request and forced on 401
+ * - A 401 for a token that was already replaced does not force another refresh
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WorkbenchClient } from '../src/client.js';
+import { AuthenticationError } from '../src/errors.js';
+import { jsonResponse, skipSleep } from './helpers.js';
+
+// =============================================================================
+// TEST SETUP
+// =============================================================================
+
+const TOKEN_URL = 'https://auth.test/oauth/token';
+
+const unauthorized = { error: { code: 'UNAUTHORIZED', message: 'Token expired' } };
+const clientResponse = { data: { id: 'client-123' }, meta: { request_id: 'req-123' } };
+
+/**
+ * Fake API that accepts only `valid-token` and issues it from the token endpoint
+ */
+function createApi(tokenResponse: Record<string, unknown> = {}) {
+  return vi.fn(async (url: string, init: RequestInit) => {
+    if (url === TOKEN_URL) {
+      return jsonResponse({
+        access_token: 'valid-token',
+        refresh_token: 'rotated-refresh',
+        token_type: 'Bearer',
+        expires_in: 3600,
+        ...tokenResponse,
+      });
+    }
+
+    const authorization = (init.headers as Record<string, string>)['Authorization'];
+    return authorization === 'Bearer valid-token'
+      ? jsonResponse(clientResponse)
+      : jsonResponse(unauthorized, 401);
+  });
+}
+
+/**
+ * Calls to the token endpoint
+ */
+function tokenCalls(fetchMock: ReturnType<typeof createApi>) {
+  return fetchMock.mock.calls.filter(([url]) => url === TOKEN_URL);
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('Token refresh', () => {
+  beforeEach(() => {
+    skipSleep();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should refresh on 401 and retry the request once', async () => {
+    const fetchMock = createApi();
+    const onTokenRefreshed = vi.fn();
+
+    const client = new WorkbenchClient({
+      accessToken: 'expired-token',
+      refreshToken: 'refresh-123',
+      oauthClient: { clientId: 'client-abc', tokenUrl: TOKEN_URL },
+      onTokenRefreshed,
+      fetch: fetchMock,
+      maxRetries: 0,
+    });
+
+    const result = await client.clients.get('client-123');
+
+    expect(result.data.id).toBe('client-123');
+    expect(tokenCalls(fetchMock)).toHaveLength(1);
+    expect(String(tokenCalls(fetchMock)[0][1].body)).toContain('refresh_token=refresh-123');
+    expect(onTokenRefreshed).toHaveBeenCalledWith(expect.objectContaining({
+      accessToken: 'valid-token',
+      refreshToken: 'rotated-refresh',
+    }));
+  });
+
+  it('should share one refresh between concurrent requests', async () => {
+    const fetchMock = createApi();
+
+    const client = new WorkbenchClient({
+      accessToken: 'expired-token',
+      refreshToken: 'refresh-123',
+      oauthClient: { clientId: 'client-abc', tokenUrl: TOKEN_URL },
+      fetch: fetchMock,
+    });
+
+    const results = await Promise.all([
+      client.clients.get('a'),
+      client.clients.get('b'),
+      client.clients.get('c'),
+    ]);
+
+    expect(results).toHaveLength(3);
+    expect(tokenCalls(fetchMock)).toHaveLength(1);
+  });
+
+  it('should use the rotated refresh token for the next refresh', async () => {
+    const fetchMock = createApi();
+
+    const client = new WorkbenchClient({
+      accessToken: 'expired-token',
+      refreshToken: 'refresh-123',
+      oauthClient: { clientId: 'client-abc', tokenUrl: TOKEN_URL },
+      fetch: fetchMock,
+    });
+
+    await client.clients.get('client-123');
+
+    // The API now rejects the refreshed token too
+    fetchMock.mockImplementationOnce(async () => jsonResponse(unauthorized, 401));
+    await client.clients.get('client-123');
+
+    expect(String(tokenCalls(fetchMock)[1][1].body)).toContain('refresh_token=rotated-refresh');
+  });
+
+  it('should throw AuthenticationError if the refreshed token is also rejected', async () => {
+    const fetchMock = createApi({ access_token: 'still-invalid' });
+
+    const client = new WorkbenchClient({
+      accessToken: 'expired-token',
+      refreshToken: 'refresh-123',
+      oauthClient: { clientId: 'client-abc', tokenUrl: TOKEN_URL },
+      fetch: fetchMock,
+    });
+
+    await expect(client.clients.get('client-123')).rejects.toBeInstanceOf(AuthenticationError);
+    expect(tokenCalls(fetchMock)).toHaveLength(1);
+  });
+
+  it('should not refresh API keys', async () => {
+    const fetchMock = createApi();
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    await expect(client.clients.get('client-123')).rejects.toThrow('Token expired');
+    expect(tokenCalls(fetchMock)).toHaveLength(0);
+  });
+
+  it('should require oauthClient with a refresh token', () => {
+    expect(() => new WorkbenchClient({ accessToken: 'x', refreshToken: 'y' })).toThrow(/oauthClient/);
+  });
+});
+
+describe('Token provider', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should ask the provider for a token and force a refresh on 401', async () => {
+    const fetchMock = createApi();
+    const tokenProvider = vi.fn(({ forceRefresh }: { forceRefresh: boolean }) =>
+      forceRefresh ? 'valid-token' : 'stale-token'
+    );
+
+    const client = new WorkbenchClient({ tokenProvider, fetch: fetchMock });
+    const result = await client.clients.get('client-123');
+
+    expect(result.data.id).toBe('client-123');
+    expect(tokenProvider.mock.calls.map(([context]) => context)).toEqual([
+      { forceRefresh: false },
+      { forceRefresh: true },
+    ]);
+  });
+
+  it('should not force another refresh for a 401 that lands after the refresh', async () => {
+    const api = createApi();
+    let releaseSecond!: () => void;
+    const firstRetried = new Promise<void>((resolve) => {
+      releaseSecond = resolve;
+    });
+    const fetchMock = vi.fn(async (url: string, init: RequestInit) => {
+      const response = await api(url, init);
+      if (url.endsWith('/clients/a') && response.ok) {
+        releaseSecond();
+      }
+      if (url.endsWith('/clients/b') && !response.ok) {
+        await firstRetried;
+      }
+      return response;
+    });
+    const tokenProvider = vi.fn(({ forceRefresh }: { forceRefresh: boolean }) =>
+      forceRefresh ? 'valid-token' : 'stale-token'
+    );
+
+    const client = new WorkbenchClient({ tokenProvider, fetch: fetchMock });
+    await Promise.all([client.clients.get('a'), client.clients.get('b')]);
+
+    expect(tokenProvider.mock.calls.filter(([context]) => context.forceRefresh)).toHaveLength(1);
+  });
+});
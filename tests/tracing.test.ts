@@ -0,0 +1,175 @@
+/**
+ * @fileoverview Tracing and lifecycle event tests
+ *
+ * Tests the observability hooks to ensure:
+ * - One span is recorded per SDK call, covering all retries
+ * - Spans carry resource, method, attempts, status, request ID and error code
+ * - request, retry, response and error events fire with matching payloads
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WorkbenchClient } from '../src/client.js';
+import type { Span, Tracer } from '../src/types/index.js';
+import { jsonResponse, skipSleep } from './helpers.js';
+
+// =============================================================================
+// TEST SETUP
+// =============================================================================
+
+/**
+ * Span that records everything set on it
+ */
+interface RecordedSpan extends Span {
+  name: string;
+  attributes: Record<string, unknown>;
+  status?: { code: number; message?: string };
+  exceptions: Error[];
+  ended: boolean;
+}
+
+/**
+ * Creates a tracer that keeps every span it starts
+ */
+function createTracer(): Tracer & { spans: RecordedSpan[] } {
+  const spans: RecordedSpan[] = [];
+  return {
+    spans,
+    startSpan(name, options) {
+      const span: RecordedSpan = {
+        name,
+        attributes: { ...options?.attributes },
+        exceptions: [],
+        ended: false,
+        setAttribute(key, value) {
+          span.attributes[key] = value;
+        },
+        setStatus(status) {
+          span.status = status;
+        },
+        recordException(exception) {
+          span.exceptions.push(exception);
+        },
+        end() {
+          span.ended = true;
+        },
+      };
+      spans.push(span);
+      return span;
+    },
+  };
+}
+
+const clientResponse = {
+  data: { id: 'client-123', first_name: 'John' },
+  meta: { request_id: 'req-123' },
+};
+
+const serverError = { error: { code: 'INTERNAL_ERROR', message: 'Oops' }, meta: { request_id: 'req-500' } };
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('Tracing', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    skipSleep();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should record one span per call across retries', async () => {
+    const tracer = createTracer();
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(serverError, 500))
+      .mockResolvedValueOnce(jsonResponse(clientResponse));
+
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock, tracer });
+    await client.clients.get('client-123');
+
+    expect(tracer.spans).toHaveLength(1);
+    const [span] = tracer.spans;
+    expect(span.name).toBe('workbench clients GET');
+    expect(span.attributes).toMatchObject({
+      'workbench.resource': 'clients',
+      'http.request.method': 'GET',
+      'url.path': '/v1/clients/client-123',
+      'workbench.attempts': 2,
+      'http.response.status_code': 200,
+      'workbench.request_id': 'req-123',
+    });
+    expect(span.status).toEqual({ code: 1 });
+    expect(span.ended).toBe(true);
+  });
+
+  it('should record errors on the span', async () => {
+    const tracer = createTracer();
+    fetchMock.mockImplementation(async () => jsonResponse(serverError, 500));
+
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock, tracer, maxRetries: 1 });
+    await expect(client.clients.get('client-123')).rejects.toThrow('Oops');
+
+    const [span] = tracer.spans;
+    expect(span.attributes).toMatchObject({
+      'workbench.attempts': 2,
+      'workbench.error_code': 'INTERNAL_ERROR',
+      'http.response.status_code': 500,
+      'workbench.request_id': 'req-500',
+    });
+    expect(span.status).toEqual({ code: 2, message: 'Oops' });
+    expect(span.exceptions).toHaveLength(1);
+    expect(span.ended).toBe(true);
+  });
+});
+
+describe('Lifecycle events', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    skipSleep();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should emit request, retry and response events', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(serverError, 503))
+      .mockResolvedValueOnce(jsonResponse(clientResponse));
+
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+    const events: Array<[string, unknown]> = [];
+    client.on('request', (e) => events.push(['request', e]));
+    client.on('retry', (e) => events.push(['retry', e]));
+    client.on('response', (e) => events.push(['response', e]));
+
+    await client.clients.get('client-123');
+
+    expect(events.map(([name]) => name)).toEqual(['request', 'retry', 'response']);
+    expect(events[0][1]).toEqual({ method: 'GET', path: '/v1/clients/client-123', resource: 'clients' });
+    expect(events[1][1]).toMatchObject({ attempt: 1, status: 503 });
+    expect(events[2][1]).toMatchObject({ status: 200, requestId: 'req-123', attempts: 2 });
+  });
+
+  it('should emit an error event when the call fails', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ error: { code: 'NOT_FOUND', message: 'Missing' } }, 404));
+
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+    const onError = vi.fn();
+    client.on('error', onError);
+
+    await expect(client.clients.get('missing')).rejects.toThrow('Missing');
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({
+      resource: 'clients',
+      attempts: 1,
+      error: expect.objectContaining({ code: 'NOT_FOUND' }),
+    }));
+  });
+});
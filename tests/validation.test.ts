@@ -0,0 +1,152 @@
+/**
+ * @fileoverview Response validation tests
+ *
+ * Tests runtime validation to ensure:
+ * - Validators report the exact path, expected and received type of mismatches
+ * - Optional fields may be absent and extra fields are allowed
+ * - validateResponses 'throw' rejects and 'warn' logs without failing the call
+ * - Responses are not validated unless enabled
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { WorkbenchClient } from '../src/client.js';
+import { ResponseValidationError } from '../src/errors.js';
+import { validators, findResponseValidator } from '../src/utils/validators.js';
+import { jsonResponse } from './helpers.js';
+
+// =============================================================================
+// TEST SETUP
+// =============================================================================
+
+const meta = { request_id: 'req_123', timestamp: '2024-01-15T10:00:00Z' };
+
+/**
+ * A valid invoice record
+ */
+function createInvoice(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'inv_1',
+    business_id: 'biz_1',
+    client_id: 'cli_1',
+    job_id: null,
+    invoice_number: 'INV-001',
+    status: 'sent',
+    issue_date: '2024-01-15',
+    due_date: null,
+    subtotal: 100,
+    tax_rate: null,
+    tax_amount: null,
+    discount_amount: null,
+    total: 100,
+    amount_paid: 0,
+    notes: null,
+    terms: null,
+    sent_at: null,
+    paid_at: null,
+    items: [{ description: 'Service', quantity: 1, unit_price: 100 }],
+    created_at: '2024-01-15T10:00:00Z',
+    updated_at: null,
+    ...overrides,
+  };
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('Validators', () => {
+  it('should accept a valid record with extra fields', () => {
+    expect(validators.invoice.validate(createInvoice({ new_field: true }))).toEqual([]);
+    expect(validators.invoice.is(createInvoice())).toBe(true);
+  });
+
+  it('should report the path of every mismatch', () => {
+    const issues = validators.invoice.validate(createInvoice({
+      total: '100',
+      status: 'refunded',
+      items: [{ description: 'Service', quantity: '1', unit_price: 100 }],
+      amount_paid: undefined,
+    }));
+
+    expect(issues).toEqual([
+      { path: 'status', expected: expect.stringContaining("'paid'"), received: "'refunded'" },
+      { path: 'total', expected: 'number', received: 'string' },
+      { path: 'amount_paid', expected: 'number', received: 'undefined' },
+      { path: 'items[0].quantity', expected: 'number', received: 'string' },
+    ]);
+  });
+
+  it('should throw ResponseValidationError from parse()', () => {
+    expect(() => validators.invoice.parse(createInvoice({ total: null }))).toThrow(ResponseValidationError);
+    expect(() => validators.invoice.parse(createInvoice({ total: null }))).toThrow(
+      'total: expected number, received null'
+    );
+  });
+
+  it('should validate response envelopes', () => {
+    const body = { data: [createInvoice()], meta, pagination: { page: 1, total: 1, has_more: 'no' } };
+    const issues = validators.listResponse(validators.invoice).validate(body);
+
+    expect(issues).toEqual([{ path: 'pagination.has_more', expected: 'boolean', received: 'string' }]);
+  });
+
+  it('should match endpoints to their response type', () => {
+    expect(findResponseValidator('GET', '/v1/invoices')?.name).toBe('ListResponse<Invoice>');
+    expect(findResponseValidator('GET', '/v1/webhooks/event-types')?.name).toBe('ApiResponse<WebhookEventTypeInfo[]>');
+    expect(findResponseValidator('GET', '/v1/integrations/installed')?.name).toBe('ListResponse<InstalledIntegration>');
+    expect(findResponseValidator('DELETE', '/v1/invoices/inv_1')).toBeUndefined();
+  });
+});
+
+describe('validateResponses', () => {
+  it('should reject mismatched responses in throw mode', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () =>
+      jsonResponse({ data: createInvoice({ total: '100' }), meta })
+    );
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock, validateResponses: 'throw' });
+
+    const error = await client.invoices.get('inv_1').catch((e) => e);
+
+    expect(error).toBeInstanceOf(ResponseValidationError);
+    expect(error.code).toBe('INVALID_RESPONSE');
+    expect(error.requestId).toBe('req_123');
+    expect(error.issues).toEqual([{ path: 'data.total', expected: 'number', received: 'string' }]);
+    expect(error.message).toContain('GET /v1/invoices/inv_1');
+  });
+
+  it('should log mismatches and return the response in warn mode', async () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const fetchMock = vi.fn().mockImplementation(async () =>
+      jsonResponse({ data: createInvoice({ total: '100' }), meta })
+    );
+    const client = new WorkbenchClient({
+      apiKey: 'wbk_test_xxx',
+      fetch: fetchMock,
+      validateResponses: 'warn',
+      logger,
+      logLevel: 'off',
+    });
+
+    const { data } = await client.invoices.get('inv_1');
+
+    expect(data.id).toBe('inv_1');
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining('data.total: expected number, received string'),
+      expect.objectContaining({ path: '/v1/invoices/inv_1' })
+    );
+  });
+
+  it('should accept valid responses', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse({ data: createInvoice(), meta }));
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock, validateResponses: 'throw' });
+
+    await expect(client.invoices.get('inv_1')).resolves.toMatchObject({ data: { id: 'inv_1' } });
+  });
+
+  it('should not validate unless enabled', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse({ data: { id: 'inv_1' }, meta: {} }));
+    const client = new WorkbenchClient({ apiKey: 'wbk_test_xxx', fetch: fetchMock });
+
+    await expect(client.invoices.get('inv_1')).resolves.toEqual({ data: { id: 'inv_1' }, meta: {} });
+  });
+});